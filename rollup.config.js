@@ -29,6 +29,13 @@ export default function rollup() {
     },
   }
 
+  const adapterOptions = [
+    { input: 'src/vue/index.ts', external: ['vue'] },
+    { input: 'src/solid/index.ts', external: ['solid-js'] },
+    { input: 'src/svelte/index.ts', external: ['svelte', 'svelte/store'] },
+    { input: 'src/babel-plugin/index.ts', external: ['path'] },
+  ]
+
   return [
     mjs(options),
     esm(options),
@@ -36,6 +43,11 @@ export default function rollup() {
     umdDev(options),
     umdProd(options),
     esmZip(options),
+    ...adapterOptions.flatMap(adapter => [
+      mjs(adapter),
+      esm(adapter),
+      cjs(adapter),
+    ]),
   ]
 }
 
@@ -49,6 +61,8 @@ function mjs({ input, external }) {
       sourcemap: true,
       dir: `build/lib`,
       preserveModules: true,
+      // Keeps the entries in their directory, e.g. `build/lib/vue/index.mjs`
+      preserveModulesRoot: 'src',
       entryFileNames: '[name].mjs',
     },
     plugins: [babelPlugin, commonJS(), nodeResolve({ extensions })],
@@ -65,6 +79,7 @@ function esm({ input, external }) {
       dir: `build/lib`,
       sourcemap: true,
       preserveModules: true,
+      preserveModulesRoot: 'src',
       entryFileNames: '[name].esm.js',
     },
     plugins: [babelPlugin, commonJS(), nodeResolve({ extensions })],
@@ -81,6 +96,7 @@ function cjs({ input, external }) {
       sourcemap: true,
       dir: `build/lib`,
       preserveModules: true,
+      preserveModulesRoot: 'src',
       exports: 'named',
       entryFileNames: '[name].js',
     },
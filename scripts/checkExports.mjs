@@ -0,0 +1,17 @@
+// Checks that the files the `exports` of package.json point to were built
+import fs from 'fs'
+
+const { exports } = JSON.parse(
+  fs.readFileSync(new URL('../package.json', import.meta.url), 'utf8')
+)
+
+const missing = Object.values(exports)
+  .flatMap(target =>
+    typeof target === 'string' ? [target] : Object.values(target)
+  )
+  .filter(file => !fs.existsSync(new URL(`../${file}`, import.meta.url)))
+
+if (missing.length) {
+  console.error(`Missing built entries:\n${missing.join('\n')}`)
+  process.exit(1)
+}
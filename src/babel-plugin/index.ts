@@ -0,0 +1,164 @@
+import type { types as BabelTypes, NodePath, PluginObj } from '@babel/core'
+import path from 'path'
+
+export interface QuaereBabelPluginOptions {
+  /**
+   * The modules the query and mutation factories are imported from.
+   * Defaults to `quaere` and its framework entries.
+   */
+  sources?: string[]
+  /**
+   * The directory the module paths of the keys are relative to.
+   * Defaults to the root of the babel config.
+   */
+  root?: string
+}
+
+const defaultSources = ['quaere', 'quaere/vue', 'quaere/solid', 'quaere/svelte']
+
+const factories = new Set([
+  'query',
+  'queryWithInfinite',
+  'subscriptionQuery',
+  'mutation',
+])
+
+interface PluginState {
+  opts: QuaereBabelPluginOptions
+  filename?: string
+  cwd: string
+  file: { opts: { root?: string | null } }
+  // Local names of the factories, and of the namespaces holding them
+  factoryNames: Set<string>
+  namespaceNames: Set<string>
+}
+
+/**
+ * Adds a `key` to the queries and mutations declared without one,
+ * derived from the module path and the name they are declared with,
+ * e.g. `src/todos#todoQuery`.
+ * Unlike generated keys, these keys are the same on the server and the client,
+ * so the queries can be dehydrated.
+ *
+ * Only the factories called at the top level of a module
+ * and assigned to a variable or exported as default get a key.
+ *
+ * @example
+ * // babel.config.js
+ * module.exports = { plugins: ['quaere/babel-plugin'] }
+ */
+export default function quaereBabelPlugin({
+  types: t,
+}: {
+  types: typeof BabelTypes
+}): PluginObj<PluginState> {
+  const isFactoryCall = (
+    callee: BabelTypes.CallExpression['callee'],
+    state: PluginState
+  ): boolean => {
+    if (t.isIdentifier(callee)) {
+      return state.factoryNames.has(callee.name)
+    }
+
+    return (
+      t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.object) &&
+      state.namespaceNames.has(callee.object.name) &&
+      t.isIdentifier(callee.property) &&
+      factories.has(callee.property.name)
+    )
+  }
+
+  const getDeclaredName = (
+    path: NodePath<BabelTypes.CallExpression>
+  ): string | undefined => {
+    const { parent } = path
+
+    if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+      return parent.id.name
+    }
+
+    if (t.isExportDefaultDeclaration(parent)) {
+      return 'default'
+    }
+  }
+
+  const hasKey = (options: BabelTypes.ObjectExpression): boolean => {
+    return options.properties.some(
+      property =>
+        t.isObjectProperty(property) &&
+        !property.computed &&
+        (t.isIdentifier(property.key, { name: 'key' }) ||
+          t.isStringLiteral(property.key, { value: 'key' }))
+    )
+  }
+
+  const getModulePath = (state: PluginState): string | undefined => {
+    if (!state.filename) {
+      return
+    }
+
+    const root = state.opts.root ?? state.file.opts.root ?? state.cwd
+    const relativePath = path.relative(root, state.filename)
+    const { dir, name } = path.parse(relativePath)
+
+    return [...dir.split(path.sep), name].filter(Boolean).join('/')
+  }
+
+  return {
+    name: 'quaere',
+    pre() {
+      this.factoryNames = new Set()
+      this.namespaceNames = new Set()
+    },
+    visitor: {
+      ImportDeclaration(path, state) {
+        const sources = state.opts.sources ?? defaultSources
+
+        if (!sources.includes(path.node.source.value)) {
+          return
+        }
+
+        path.node.specifiers.forEach(specifier => {
+          if (t.isImportNamespaceSpecifier(specifier)) {
+            state.namespaceNames.add(specifier.local.name)
+          } else if (
+            t.isImportSpecifier(specifier) &&
+            factories.has(
+              t.isIdentifier(specifier.imported)
+                ? specifier.imported.name
+                : specifier.imported.value
+            )
+          ) {
+            state.factoryNames.add(specifier.local.name)
+          }
+        })
+      },
+      CallExpression(path, state) {
+        const [options] = path.node.arguments
+
+        if (
+          !isFactoryCall(path.node.callee, state) ||
+          !t.isObjectExpression(options) ||
+          hasKey(options) ||
+          !t.isProgram(path.scope.block)
+        ) {
+          return
+        }
+
+        const name = getDeclaredName(path)
+        const modulePath = getModulePath(state)
+
+        if (name && modulePath) {
+          // Placed first, so a key spread into the options still wins
+          options.properties.unshift(
+            t.objectProperty(
+              t.identifier('key'),
+              t.stringLiteral(`${modulePath}#${name}`)
+            )
+          )
+        }
+      },
+    },
+  }
+}
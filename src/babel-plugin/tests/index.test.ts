@@ -0,0 +1,97 @@
+import { transformSync } from '@babel/core'
+
+import quaereBabelPlugin, { QuaereBabelPluginOptions } from '..'
+
+const transform = (
+  code: string,
+  options: QuaereBabelPluginOptions = {},
+  filename = '/app/src/todos/queries.ts'
+) => {
+  return transformSync(code, {
+    babelrc: false,
+    configFile: false,
+    filename,
+    plugins: [[quaereBabelPlugin, { root: '/app', ...options }]],
+  })!.code
+}
+
+describe('babel-plugin', () => {
+  it('should derive the keys from the module path and the declared name', () => {
+    const code = transform(`
+      import { query, mutation } from 'quaere'
+      export const todoQuery = query({ fetcher: getTodo })
+      const addTodo = mutation({ fetcher: postTodo })
+      export default query({ fetcher: getTodos })
+    `)
+
+    expect(code).toContain(
+      `query({\n  key: "src/todos/queries#todoQuery",\n  fetcher: getTodo\n})`
+    )
+    expect(code).toContain(
+      `mutation({\n  key: "src/todos/queries#addTodo",\n  fetcher: postTodo\n})`
+    )
+    expect(code).toContain(
+      `query({\n  key: "src/todos/queries#default",\n  fetcher: getTodos\n})`
+    )
+  })
+
+  it('should handle renamed and namespace imports of every entry', () => {
+    const code = transform(`
+      import { queryWithInfinite as infinite } from 'quaere/vue'
+      import * as quaere from 'quaere/solid'
+      export const pagesQuery = infinite({ fetcher: getPages })
+      export const feedQuery = quaere.subscriptionQuery({ subscribe })
+    `)
+
+    expect(code).toContain(`key: "src/todos/queries#pagesQuery"`)
+    expect(code).toContain(`key: "src/todos/queries#feedQuery"`)
+  })
+
+  it('should keep the explicit keys', () => {
+    const code = transform(`
+      import { query } from 'quaere'
+      export const todoQuery = query({ key: 'todo', fetcher: getTodo })
+      export const userQuery = query({ 'key': 'user', fetcher: getUser })
+    `)
+
+    expect(code).not.toContain('#')
+  })
+
+  it('should place the key before spread options', () => {
+    const code = transform(`
+      import { query } from 'quaere'
+      export const todoQuery = query({ ...options, fetcher: getTodo })
+    `)
+
+    expect(code).toContain(
+      `query({\n  key: "src/todos/queries#todoQuery",\n  ...options,`
+    )
+  })
+
+  it('should skip calls which cannot be named or are not at the top level', () => {
+    const code = transform(`
+      import { query } from 'quaere'
+      import { query as other } from 'other'
+      export const queries = [query({ fetcher: getTodo })]
+      export const otherQuery = other({ fetcher: getTodo })
+      export function createTodoQuery() {
+        const todoQuery = query({ fetcher: getTodo })
+        return todoQuery
+      }
+    `)
+
+    expect(code).not.toContain('key')
+  })
+
+  it('should accept other sources', () => {
+    const code = transform(
+      `
+      import { query } from '@app/quaere'
+      export const todoQuery = query({ fetcher: getTodo })
+    `,
+      { sources: ['@app/quaere'] }
+    )
+
+    expect(code).toContain(`key: "src/todos/queries#todoQuery"`)
+  })
+})
@@ -0,0 +1,295 @@
+import * as React from 'react'
+
+import type { QueryClient } from '../vanilla'
+import type { MutationInfo } from '../vanilla/mutationInfo'
+import type { QueryInfo, QueryInfoState } from '../vanilla/queryInfo'
+import { UNDEFINED, noop } from '../vanilla/utils'
+import { useQueryClient } from './QueryClientProvider'
+
+export interface QuaereDevtoolsProps {
+  /**
+   * Set this true if you want the panel to be open by default
+   */
+  initialIsOpen?: boolean
+  /**
+   * The position of the toggle button, defaults to `bottom-right`
+   */
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  queryClient?: QueryClient
+}
+
+// States replaced by the "trigger loading/error" actions,
+// restored when the action is toggled off
+const triggeredStates = new WeakMap<
+  QueryInfo<any, any, any, any>,
+  QueryInfoState<any, any>
+>()
+
+const toggleTriggeredState = (
+  queryInfo: QueryInfo<any, any, any, any>,
+  state: Partial<QueryInfoState<any, any>>
+) => {
+  const previousState = triggeredStates.get(queryInfo)
+
+  if (previousState) {
+    triggeredStates.delete(queryInfo)
+    queryInfo.setState(previousState)
+  } else {
+    triggeredStates.set(queryInfo, queryInfo.state)
+    queryInfo.cancel({ silent: true })
+    queryInfo.setState(state)
+  }
+}
+
+const useCacheVersion = (client: QueryClient): number => {
+  const version = React.useRef(0)
+  const queryCache = client.getQueryCache()
+  const mutationCache = client.getMutationCache()
+
+  return React.useSyncExternalStore(
+    React.useCallback(
+      onStoreChange => {
+        const listener = () => {
+          version.current++
+          onStoreChange()
+        }
+        const unsubscribeQueries = queryCache.subscribe(listener)
+        const unsubscribeMutations = mutationCache.subscribe(listener)
+
+        return () => {
+          unsubscribeQueries()
+          unsubscribeMutations()
+        }
+      },
+      [queryCache, mutationCache]
+    ),
+    () => version.current,
+    () => version.current
+  )
+}
+
+// Queries become stale with time, without any cache event,
+// so the open panel renders again every second to show it
+const useStalenessTick = (enabled: boolean): void => {
+  const [, setTick] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    const interval = setInterval(() => setTick(tick => tick + 1), 1000)
+
+    return () => clearInterval(interval)
+  }, [enabled])
+}
+
+// Variables which JSON can not represent, e.g. circular ones, are shown as is
+const formatValue = (value: unknown): string => {
+  try {
+    return JSON.stringify(value) ?? '-'
+  } catch {
+    return String(value)
+  }
+}
+
+const formatTime = (time: number) =>
+  time ? new Date(time).toLocaleTimeString() : '-'
+
+const h = React.createElement
+
+const cellStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  borderBottom: '1px solid #333',
+  whiteSpace: 'nowrap',
+}
+
+const buttonStyle: React.CSSProperties = {
+  marginRight: 4,
+  padding: '0 4px',
+  font: 'inherit',
+  cursor: 'pointer',
+}
+
+const table = (
+  headers: string[],
+  rows: Array<{ key: React.Key; cells: React.ReactNode[] }>
+) =>
+  h(
+    'table',
+    { style: { width: '100%', borderCollapse: 'collapse' } },
+    h(
+      'thead',
+      null,
+      h(
+        'tr',
+        null,
+        headers.map(header =>
+          h(
+            'th',
+            { key: header, style: { ...cellStyle, textAlign: 'left' } },
+            header
+          )
+        )
+      )
+    ),
+    h(
+      'tbody',
+      null,
+      rows.map(row =>
+        h(
+          'tr',
+          { key: row.key },
+          row.cells.map((cell, index) =>
+            h('td', { key: index, style: cellStyle }, cell)
+          )
+        )
+      )
+    )
+  )
+
+const actionButton = (label: string, onClick: () => void) =>
+  h(
+    'button',
+    { key: label, type: 'button', style: buttonStyle, onClick },
+    label
+  )
+
+const queryRows = (client: QueryClient) =>
+  client
+    .getQueryCache()
+    .getAll()
+    .map(queryInfo => {
+      const { state } = queryInfo
+      const predicate = (x: QueryInfo<any, any, any, any>) => x === queryInfo
+
+      return {
+        key: queryInfo.queryHash,
+        cells: [
+          queryInfo.queryHash,
+          state.status,
+          state.fetchStatus,
+          queryInfo.getObserversCount(),
+          queryInfo.isStale() ? 'stale' : 'fresh',
+          formatTime(state.dataUpdatedAt),
+          [
+            actionButton('refetch', () => {
+              queryInfo.fetch().catch(noop)
+            }),
+            actionButton('invalidate', () => {
+              client.invalidateQueries({ predicate })
+            }),
+            actionButton('reset', () => {
+              client.resetQueries({ predicate })
+            }),
+            actionButton('remove', () => {
+              client.getQueryCache().remove(queryInfo)
+            }),
+            actionButton('trigger loading', () => {
+              toggleTriggeredState(queryInfo, {
+                data: UNDEFINED,
+                status: 'pending',
+                fetchStatus: 'fetching',
+              })
+            }),
+            actionButton('trigger error', () => {
+              toggleTriggeredState(queryInfo, {
+                status: 'error',
+                fetchStatus: 'idle',
+                error: new Error('Triggered by the devtools'),
+                errorUpdatedAt: Date.now(),
+              })
+            }),
+          ],
+        ],
+      }
+    })
+
+const mutationRows = (client: QueryClient) =>
+  client
+    .getMutationCache()
+    .getAll()
+    .map((mutationInfo: MutationInfo<any, any, any, any>) => ({
+      key: mutationInfo.mutationId,
+      cells: [
+        mutationInfo.mutation.key,
+        mutationInfo.state.status,
+        mutationInfo.state.failureCount,
+        formatValue(mutationInfo.state.variables),
+        actionButton('remove', () => {
+          client.getMutationCache().remove(mutationInfo)
+        }),
+      ],
+    }))
+
+const QuaereDevtoolsPanel = ({
+  initialIsOpen = false,
+  position = 'bottom-right',
+  queryClient,
+}: QuaereDevtoolsProps) => {
+  const client = useQueryClient(queryClient)
+  const [isOpen, setIsOpen] = React.useState(initialIsOpen)
+  const [vertical, horizontal] = position.split('-') as [string, string]
+
+  useCacheVersion(client)
+  useStalenessTick(isOpen)
+
+  return h(
+    'div',
+    {
+      style: {
+        position: 'fixed',
+        [vertical]: 0,
+        [horizontal]: 0,
+        zIndex: 99999,
+        maxWidth: '100vw',
+        maxHeight: '50vh',
+        overflow: 'auto',
+        background: '#1b1b1b',
+        color: '#eee',
+        font: '12px monospace',
+      },
+    },
+    h(
+      'button',
+      {
+        type: 'button',
+        style: { ...buttonStyle, margin: 4 },
+        onClick: () => setIsOpen(open => !open),
+      },
+      isOpen ? 'Close quaere devtools' : 'Open quaere devtools'
+    ),
+    isOpen &&
+      h(
+        'div',
+        { style: { padding: 4 } },
+        h('h4', null, 'Queries'),
+        table(
+          [
+            'hash',
+            'status',
+            'fetchStatus',
+            'observers',
+            'staleness',
+            'dataUpdatedAt',
+            'actions',
+          ],
+          queryRows(client)
+        ),
+        h('h4', null, 'Mutations'),
+        table(
+          ['key', 'status', 'failureCount', 'variables', 'actions'],
+          mutationRows(client)
+        )
+      )
+  )
+}
+
+/**
+ * Renders a live view of the query and mutation caches.
+ * Renders nothing in production builds, so it can be left in the tree.
+ */
+export const QuaereDevtools: (
+  props: QuaereDevtoolsProps
+) => React.ReactElement | null =
+  process.env.NODE_ENV !== 'production' ? QuaereDevtoolsPanel : () => null
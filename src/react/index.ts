@@ -10,3 +10,4 @@ export * from './useMutationState'
 export * from './QueryClientProvider'
 export * from './QueryErrorResetBoundary'
 export * from './HydrationBoundary'
+export * from './QuaereDevtools'
@@ -45,28 +45,51 @@ type UseInfiniteQueryOptionsForUseQueries<
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 > = Omit<
-  UseInfiniteQueryOptions<TFetcherData, TVars, TError, TData>,
+  UseInfiniteQueryOptions<TFetcherData, TVars, TError, TData, TPageParam>,
   'placeholderData' | 'suspense'
 > & {
   placeholderData?:
-    | InfiniteData<TFetcherData>
-    | QueriesPlaceholderDataFunction<InfiniteData<TFetcherData>>
+    | InfiniteData<TFetcherData, TPageParam>
+    | QueriesPlaceholderDataFunction<InfiniteData<TFetcherData, TPageParam>>
 }
 
 // Avoid TS depth-limit error in case of large array literal
 type MAXIMUM_DEPTH = 20
 
 type GetOptions<T> = T extends {
-  query: InfiniteQuery<infer TFetcherData, infer TVars, infer TError>
+  query: InfiniteQuery<
+    infer TFetcherData,
+    infer TVars,
+    infer TError,
+    infer TPageParam
+  >
   select: (data: any) => infer TData
 }
-  ? UseInfiniteQueryOptionsForUseQueries<TFetcherData, TVars, TError, TData>
+  ? UseInfiniteQueryOptionsForUseQueries<
+      TFetcherData,
+      TVars,
+      TError,
+      TData,
+      TPageParam
+    >
   : T extends {
-      query: InfiniteQuery<infer TFetcherData, infer TVars, infer TError>
+      query: InfiniteQuery<
+        infer TFetcherData,
+        infer TVars,
+        infer TError,
+        infer TPageParam
+      >
     }
-  ? UseInfiniteQueryOptionsForUseQueries<TFetcherData, TVars, TError>
+  ? UseInfiniteQueryOptionsForUseQueries<
+      TFetcherData,
+      TVars,
+      TError,
+      InfiniteData<TFetcherData, TPageParam>,
+      TPageParam
+    >
   : T extends {
       query: Query<infer TFetcherData, infer TVars, infer TError>
       select: (data: any) => infer TData
@@ -84,9 +107,14 @@ type GetResults<T> = T extends {
 }
   ? UseInfiniteQueryResult<TData, TError>
   : T extends {
-      query: InfiniteQuery<infer TFetcherData, any, infer TError>
+      query: InfiniteQuery<
+        infer TFetcherData,
+        any,
+        infer TError,
+        infer TPageParam
+      >
     }
-  ? UseInfiniteQueryResult<InfiniteData<TFetcherData>, TError>
+  ? UseInfiniteQueryResult<InfiniteData<TFetcherData, TPageParam>, TError>
   : T extends {
       query: Query<any, any, infer TError>
       select: (data: any) => infer TData
@@ -21,15 +21,16 @@ export type UseInfiniteQueryOptions<
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 > = UseBseQueryOptions<
   TFetcherData,
   TVars,
   TError,
-  InfiniteData<TFetcherData>,
+  InfiniteData<TFetcherData, TPageParam>,
   TData
 > & {
-  query: InfiniteQuery<TFetcherData, TVars, TError>
+  query: InfiniteQuery<TFetcherData, TVars, TError, TPageParam>
 }
 
 export type UseInfiniteQueryResult<
@@ -41,9 +42,16 @@ export function useQuery<
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 >(
-  options: UseInfiniteQueryOptions<TFetcherData, TVars, TError, TData>,
+  options: UseInfiniteQueryOptions<
+    TFetcherData,
+    TVars,
+    TError,
+    TData,
+    TPageParam
+  >,
   queryClient?: QueryClient
 ): UseInfiniteQueryResult<TData, TError>
 export function useQuery<
@@ -12,14 +12,36 @@ import {
 type MAXIMUM_DEPTH = 20
 
 type GetSuspenseOptions<T> = T extends {
-  query: InfiniteQuery<infer TFetcherData, infer TVars, infer TError>
+  query: InfiniteQuery<
+    infer TFetcherData,
+    infer TVars,
+    infer TError,
+    infer TPageParam
+  >
   select: (data: any) => infer TData
 }
-  ? UseSuspenseInfiniteQueryOptions<TFetcherData, TVars, TError, TData>
+  ? UseSuspenseInfiniteQueryOptions<
+      TFetcherData,
+      TVars,
+      TError,
+      TData,
+      TPageParam
+    >
   : T extends {
-      query: InfiniteQuery<infer TFetcherData, infer TVars, infer TError>
+      query: InfiniteQuery<
+        infer TFetcherData,
+        infer TVars,
+        infer TError,
+        infer TPageParam
+      >
     }
-  ? UseSuspenseInfiniteQueryOptions<TFetcherData, TVars, TError>
+  ? UseSuspenseInfiniteQueryOptions<
+      TFetcherData,
+      TVars,
+      TError,
+      InfiniteData<TFetcherData, TPageParam>,
+      TPageParam
+    >
   : T extends {
       query: Query<infer TFetcherData, infer TVars, infer TError>
       select: (data: any) => infer TData
@@ -37,9 +59,17 @@ type GetSuspenseResults<T> = T extends {
 }
   ? UseSuspenseInfiniteQueryResult<TData, TError>
   : T extends {
-      query: InfiniteQuery<infer TFetcherData, any, infer TError>
+      query: InfiniteQuery<
+        infer TFetcherData,
+        any,
+        infer TError,
+        infer TPageParam
+      >
     }
-  ? UseSuspenseInfiniteQueryResult<InfiniteData<TFetcherData>, TError>
+  ? UseSuspenseInfiniteQueryResult<
+      InfiniteData<TFetcherData, TPageParam>,
+      TError
+    >
   : T extends {
       query: Query<any, any, infer TError>
       select: (data: any) => infer TData
@@ -24,9 +24,10 @@ export type UseSuspenseInfiniteQueryOptions<
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 > = Omit<
-  UseInfiniteQueryOptions<TFetcherData, TVars, TError, TData>,
+  UseInfiniteQueryOptions<TFetcherData, TVars, TError, TData, TPageParam>,
   'suspense' | 'enabled' | 'throwOnError' | 'placeholderData'
 >
 
@@ -42,9 +43,16 @@ export function useSuspenseQuery<
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 >(
-  options: UseSuspenseInfiniteQueryOptions<TFetcherData, TVars, TError, TData>,
+  options: UseSuspenseInfiniteQueryOptions<
+    TFetcherData,
+    TVars,
+    TError,
+    TData,
+    TPageParam
+  >,
   queryClient?: QueryClient
 ): UseSuspenseInfiniteQueryResult<TData, TError>
 export function useSuspenseQuery<
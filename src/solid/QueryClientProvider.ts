@@ -0,0 +1,51 @@
+import {
+  JSX,
+  createComponent,
+  createContext,
+  onCleanup,
+  onMount,
+  useContext,
+} from 'solid-js'
+
+import { QueryClient, createQueryClient } from '../vanilla'
+
+const QueryClientContext = createContext<QueryClient>()
+
+let defaultQueryClient: QueryClient | undefined
+
+const getDefaultQueryClient = (): QueryClient => {
+  if (!defaultQueryClient) {
+    defaultQueryClient = createQueryClient()
+  }
+  return defaultQueryClient
+}
+
+export const useQueryClient = (queryClient?: QueryClient): QueryClient => {
+  const client = useContext(QueryClientContext)
+  return queryClient ?? client ?? getDefaultQueryClient()
+}
+
+export interface QueryClientProviderProps {
+  client: QueryClient
+  children?: JSX.Element
+}
+
+export const QueryClientProvider = (
+  props: QueryClientProviderProps
+): JSX.Element => {
+  onMount(() => {
+    props.client.mount()
+  })
+  onCleanup(() => {
+    props.client.unmount()
+  })
+
+  return createComponent(QueryClientContext.Provider, {
+    get value() {
+      return props.client
+    },
+    get children() {
+      return props.children
+    },
+  })
+}
@@ -0,0 +1,27 @@
+import { Accessor, createMemo, createSignal, onCleanup } from 'solid-js'
+
+import type { QueryClient, QueryInfoFilters } from '../vanilla'
+import { useQueryClient } from './QueryClientProvider'
+
+/**
+ * @returns a signal of the number of queries matching the filters
+ * which are fetching
+ */
+export function createIsFetching(
+  filters?: Accessor<QueryInfoFilters | undefined>,
+  queryClient?: QueryClient
+): Accessor<number> {
+  const client = useQueryClient(queryClient)
+  const [version, setVersion] = createSignal(0)
+
+  const unsubscribe = client.getQueryCache().subscribe(() => {
+    setVersion(x => x + 1)
+  })
+
+  onCleanup(unsubscribe)
+
+  return createMemo(() => {
+    version()
+    return client.isFetching(filters?.())
+  })
+}
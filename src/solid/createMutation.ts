@@ -0,0 +1,88 @@
+import { Accessor, createComputed, createSignal, on, onCleanup } from 'solid-js'
+
+import type { QueryClient } from '../vanilla'
+import {
+  ObservableMutationOptions,
+  ObservableMutationResult,
+  createObservableMutation,
+} from '../vanilla/observableMutation'
+import { useQueryClient } from './QueryClientProvider'
+
+export interface CreateMutationOptions<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> extends ObservableMutationOptions<TData, TVars, TError, TContext> {}
+
+type MutationResult<TData, TVars, TError, TContext> = ObservableMutationResult<
+  TData,
+  TVars,
+  TError,
+  TContext
+>
+
+export type CreateMutationResult<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> = {
+  [K in keyof MutationResult<TData, TVars, TError, TContext>]-?: K extends
+    | 'trigger'
+    | 'cancel'
+    | 'reset'
+    ? MutationResult<TData, TVars, TError, TContext>[K]
+    : Accessor<MutationResult<TData, TVars, TError, TContext>[K]>
+}
+
+/**
+ * Tracks the last mutation triggered with `trigger`,
+ * the options are read in a tracking scope.
+ */
+export const createMutation = <
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+>(
+  mutationOptions: Accessor<
+    CreateMutationOptions<TData, TVars, TError, TContext>
+  >,
+  queryClient?: QueryClient
+): CreateMutationResult<TData, TVars, TError, TContext> => {
+  const client = useQueryClient(queryClient)
+  const obsMutation = createObservableMutation(client, mutationOptions())
+  const [result, setResult] = createSignal(obsMutation.getCurrentResult())
+
+  const unsubscribe = obsMutation.subscribe(nextResult => {
+    setResult(() => nextResult)
+  })
+
+  createComputed(
+    on(
+      mutationOptions,
+      options => {
+        obsMutation.setOptions(options)
+      },
+      { defer: true }
+    )
+  )
+
+  onCleanup(unsubscribe)
+
+  return {
+    data: () => result().data,
+    error: () => result().error,
+    variables: () => result().variables,
+    context: () => result().context,
+    failureCount: () => result().failureCount,
+    failureReason: () => result().failureReason,
+    isMutating: () => result().isMutating,
+    isQueued: () => result().isQueued,
+    isCancelled: () => result().isCancelled,
+    trigger: obsMutation.trigger,
+    cancel: obsMutation.cancel,
+    reset: obsMutation.reset,
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  Accessor,
+  Resource,
+  createComputed,
+  createResource,
+  createSignal,
+  on,
+  onCleanup,
+  untrack,
+} from 'solid-js'
+
+import {
+  FetchQueryOptions,
+  InfiniteData,
+  InfiniteQuery,
+  Query,
+  QueryClient,
+} from '../vanilla'
+import { ObservableInfiniteQueryResult } from '../vanilla/observableInfiniteQuery'
+import {
+  ObservableQueryOptions,
+  ObservableQueryResult,
+} from '../vanilla/observableQuery'
+import { GetVariablesOption } from '../vanilla/typeUtils'
+import { isUndefined } from '../vanilla/utils'
+import { useQueryClient } from './QueryClientProvider'
+
+export type CreateBaseQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TQueryData = TFetcherData,
+  TData = TQueryData
+> = Omit<
+  ObservableQueryOptions<TFetcherData, TVars, TError, TQueryData, TData>,
+  'suspense' | 'throwOnError' | '_optimisticResults'
+> &
+  GetVariablesOption<TVars>
+
+export type CreateQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = TFetcherData
+> = CreateBaseQueryOptions<TFetcherData, TVars, TError, TFetcherData, TData> & {
+  query: Query<TFetcherData, TVars, TError>
+}
+
+export type CreateQueryResult<
+  TData = unknown,
+  TError = unknown
+> = ObservableQueryResult<TData, TError>
+
+export type CreateInfiniteQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
+> = CreateBaseQueryOptions<
+  TFetcherData,
+  TVars,
+  TError,
+  InfiniteData<TFetcherData, TPageParam>,
+  TData
+> & {
+  query: InfiniteQuery<TFetcherData, TVars, TError, TPageParam>
+}
+
+export type CreateInfiniteQueryResult<
+  TData = unknown,
+  TError = unknown
+> = ObservableInfiniteQueryResult<TData, TError>
+
+// Subscribes an observable query for the lifetime of the owner
+const observeQuery = (
+  options: Accessor<CreateBaseQueryOptions<any, any, any, any, any>>,
+  client: QueryClient
+) => {
+  const getDefaultedOptions = () =>
+    client.defaultQueryOptions(options() as ObservableQueryOptions)
+
+  const obsQuery = client.watchQuery(untrack(getDefaultedOptions))
+  const [result, setResult] = createSignal(obsQuery.getCurrentResult())
+
+  const unsubscribe = obsQuery.subscribe(nextResult => {
+    setResult(() => nextResult)
+  })
+
+  // Update result to make sure we did not miss any query updates
+  // between creating the observer and subscribing to it.
+  obsQuery.updateResult()
+
+  createComputed(
+    on(
+      getDefaultedOptions,
+      defaultedOptions => {
+        obsQuery.setOptions(defaultedOptions)
+      },
+      { defer: true }
+    )
+  )
+
+  onCleanup(unsubscribe)
+
+  return [result, getDefaultedOptions] as const
+}
+
+/**
+ * Watches a query, the options are read in a tracking scope
+ * to follow reactive variables.
+ * @returns a signal of the latest result
+ */
+export function createQuery<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
+>(
+  options: Accessor<
+    CreateInfiniteQueryOptions<TFetcherData, TVars, TError, TData, TPageParam>
+  >,
+  queryClient?: QueryClient
+): Accessor<CreateInfiniteQueryResult<TData, TError>>
+export function createQuery<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = TFetcherData
+>(
+  options: Accessor<CreateQueryOptions<TFetcherData, TVars, TError, TData>>,
+  queryClient?: QueryClient
+): Accessor<CreateQueryResult<TData, TError>>
+export function createQuery(
+  options: Accessor<CreateBaseQueryOptions<any, any, any, any, any>>,
+  queryClient?: QueryClient
+): Accessor<any> {
+  const [result] = observeQuery(options, useQueryClient(queryClient))
+  return result
+}
+
+/**
+ * Watches a query like `createQuery`, as a resource of its data,
+ * so it can be read under `<Suspense>`.
+ * The resource is loading until the query has data, or errored if it failed.
+ */
+export function createQueryResource<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error
+>(
+  options: Accessor<CreateQueryOptions<TFetcherData, TVars, TError>>,
+  queryClient?: QueryClient
+): Resource<TFetcherData> {
+  const client = useQueryClient(queryClient)
+  const [result, getDefaultedOptions] = observeQuery(options, client)
+
+  // Loaded again when the options point to another query
+  const [resource, { mutate }] = createResource(
+    () => getDefaultedOptions().queryHash,
+    () =>
+      client.ensureQueryData(
+        untrack(getDefaultedOptions) as FetchQueryOptions<any, any, any>
+      )
+  )
+
+  // Later updates of the data, e.g. refetches, are written as is
+  createComputed(
+    on(result, ({ data }) => {
+      if (
+        resource.state === 'ready' &&
+        !isUndefined(data) &&
+        data !== resource.latest
+      ) {
+        mutate(() => data as TFetcherData)
+      }
+    })
+  )
+
+  return resource
+}
@@ -0,0 +1,5 @@
+export * from '../vanilla'
+export * from './createQuery'
+export * from './createIsFetching'
+export * from './createMutation'
+export * from './QueryClientProvider'
@@ -0,0 +1,61 @@
+import { createQueryClient, mutation } from '../../vanilla'
+import type { QueryClient } from '../../vanilla'
+import { createMutation } from '../createMutation'
+import { renderPrimitive, sleep } from './utils'
+
+describe('createMutation', () => {
+  let queryClient: QueryClient
+
+  const anMutation = mutation({
+    fetcher: async (text: string) => {
+      await sleep(10)
+      return text.toUpperCase()
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should hold the state of the last triggered mutation in signals', async () => {
+    const onSuccess = vi.fn()
+    const { result, dispose } = renderPrimitive(() =>
+      createMutation(() => ({ mutation: anMutation }), queryClient)
+    )
+
+    const promise = result.trigger('todo', { onSuccess })
+
+    expect(result.isMutating()).toBe(true)
+    expect(result.variables()).toBe('todo')
+
+    await expect(promise).resolves.toBe('TODO')
+
+    expect(result.isMutating()).toBe(false)
+    expect(result.data()).toBe('TODO')
+    expect(onSuccess).toHaveBeenCalledTimes(1)
+
+    result.reset()
+
+    expect(result.data()).toBeUndefined()
+
+    dispose()
+  })
+
+  it('should cancel the last triggered mutation', async () => {
+    const { result, dispose } = renderPrimitive(() =>
+      createMutation(() => ({ mutation: anMutation }), queryClient)
+    )
+
+    const promise = result.trigger('todo')
+    result.cancel()
+
+    await expect(promise).rejects.toThrow()
+    expect(result.isCancelled()).toBe(true)
+
+    dispose()
+  })
+})
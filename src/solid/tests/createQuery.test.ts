@@ -0,0 +1,171 @@
+import { createSignal } from 'solid-js'
+
+import { createQueryClient, query } from '../../vanilla'
+import type { QueryClient } from '../../vanilla'
+import { generatekey } from '../../vanilla/utils'
+import { createIsFetching } from '../createIsFetching'
+import { createQuery, createQueryResource } from '../createQuery'
+import { renderPrimitive, sleep } from './utils'
+
+describe('createQuery', () => {
+  let queryClient: QueryClient
+
+  const anQuery = query({
+    key: generatekey(),
+    fetcher: async (id: number) => {
+      await sleep(10)
+      return `todo ${id}`
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should hold the latest result in a signal', async () => {
+    const { result, dispose } = renderPrimitive(() =>
+      createQuery(() => ({ query: anQuery, variables: 1 }), queryClient)
+    )
+
+    expect(result()).toMatchObject({ isLoading: true, isFetching: true })
+
+    await sleep(20)
+
+    expect(result()).toMatchObject({
+      isLoading: false,
+      isFetching: false,
+      data: 'todo 1',
+    })
+
+    dispose()
+  })
+
+  it('should follow reactive variables', async () => {
+    const [id, setId] = createSignal(1)
+    const { result, dispose } = renderPrimitive(() =>
+      createQuery(() => ({ query: anQuery, variables: id() }), queryClient)
+    )
+
+    await sleep(20)
+    expect(result().data).toBe('todo 1')
+
+    setId(2)
+    await sleep(20)
+
+    expect(result().data).toBe('todo 2')
+
+    dispose()
+  })
+
+  it('should stop observing the query once disposed', async () => {
+    const { dispose } = renderPrimitive(() =>
+      createQuery(() => ({ query: anQuery, variables: 1 }), queryClient)
+    )
+    const getObserversCount = () =>
+      queryClient
+        .getQueryCache()
+        .find({ query: anQuery, variables: 1 })
+        ?.getObserversCount()
+
+    expect(getObserversCount()).toBe(1)
+
+    dispose()
+
+    expect(getObserversCount()).toBe(0)
+  })
+
+  it('should share the query cache with other clients of the page', async () => {
+    await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+
+    const { result, dispose } = renderPrimitive(() =>
+      createQuery(
+        () => ({ query: anQuery, variables: 1, staleTime: Infinity }),
+        queryClient
+      )
+    )
+
+    expect(result().data).toBe('todo 1')
+
+    queryClient.setQueryData({ query: anQuery, variables: 1 }, 'updated')
+
+    expect(result().data).toBe('updated')
+
+    dispose()
+  })
+})
+
+describe('createQueryResource', () => {
+  it('should resolve the resource with the data of the query', async () => {
+    const queryClient = createQueryClient()
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: (id: number) => sleep(10).then(() => `todo ${id}`),
+    })
+    const { result, dispose } = renderPrimitive(() =>
+      createQueryResource(() => ({ query: anQuery, variables: 1 }), queryClient)
+    )
+
+    expect(result.loading).toBe(true)
+
+    await sleep(20)
+
+    expect(result()).toBe('todo 1')
+
+    queryClient.setQueryData({ query: anQuery, variables: 1 }, 'updated')
+
+    expect(result()).toBe('updated')
+
+    dispose()
+    queryClient.clear()
+  })
+
+  it('should reject the resource with the error of the query', async () => {
+    const queryClient = createQueryClient()
+    const error = new Error('failed')
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => Promise.reject(error),
+      retry: false,
+    })
+    const { result, dispose } = renderPrimitive(() =>
+      createQueryResource(() => ({ query: anQuery }), queryClient)
+    )
+
+    await sleep(10)
+
+    expect(result.error).toBe(error)
+
+    dispose()
+    queryClient.clear()
+  })
+})
+
+describe('createIsFetching', () => {
+  it('should hold the number of fetching queries in a signal', async () => {
+    const queryClient = createQueryClient()
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => sleep(10).then(() => 'data'),
+    })
+    const { result, dispose } = renderPrimitive(() =>
+      createIsFetching(undefined, queryClient)
+    )
+
+    expect(result()).toBe(0)
+
+    const promise = queryClient.fetchQuery({ query: anQuery })
+
+    expect(result()).toBe(1)
+
+    await promise
+
+    expect(result()).toBe(0)
+
+    dispose()
+    queryClient.clear()
+  })
+})
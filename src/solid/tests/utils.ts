@@ -0,0 +1,15 @@
+import { createRoot } from 'solid-js'
+
+export function sleep(timeout: number): Promise<void> {
+  return new Promise(resolve => {
+    setTimeout(resolve, timeout)
+  })
+}
+
+// Runs a primitive in a reactive root, disposing the root disposes the primitive
+export function renderPrimitive<T>(primitive: () => T): {
+  result: T
+  dispose: () => void
+} {
+  return createRoot(dispose => ({ result: primitive(), dispose }))
+}
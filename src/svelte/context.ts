@@ -0,0 +1,49 @@
+import { getContext, onDestroy, setContext } from 'svelte'
+
+import { QueryClient, createQueryClient } from '../vanilla'
+import { UNDEFINED } from '../vanilla/utils'
+
+const queryClientKey = Symbol('QueryClient')
+
+let defaultQueryClient: QueryClient | undefined
+
+const getDefaultQueryClient = (): QueryClient => {
+  if (!defaultQueryClient) {
+    defaultQueryClient = createQueryClient()
+  }
+  return defaultQueryClient
+}
+
+const getContextQueryClient = (): QueryClient | undefined => {
+  try {
+    return getContext<QueryClient | undefined>(queryClientKey)
+  } catch {
+    // Called outside the initialization of a component
+    return UNDEFINED
+  }
+}
+
+/**
+ * Provides a `QueryClient` to the stores created by the component
+ * and its children, the client is mounted until the component is destroyed.
+ * Must be called during the initialization of a component.
+ */
+export const setQueryClientContext = (queryClient: QueryClient): void => {
+  queryClient.mount()
+  onDestroy(() => {
+    queryClient.unmount()
+  })
+
+  setContext(queryClientKey, queryClient)
+}
+
+/**
+ * Returns the given client, else the client of the context.
+ * Outside the initialization of a component, there is no context,
+ * the default client is returned instead.
+ */
+export const getQueryClientContext = (
+  queryClient?: QueryClient
+): QueryClient => {
+  return queryClient ?? getContextQueryClient() ?? getDefaultQueryClient()
+}
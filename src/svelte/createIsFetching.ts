@@ -0,0 +1,28 @@
+import { Readable, derived, readable } from 'svelte/store'
+
+import type { QueryClient, QueryInfoFilters } from '../vanilla'
+import { getQueryClientContext } from './context'
+import { MaybeReadable, toReadable } from './utils'
+
+/**
+ * @returns a store of the number of queries matching the filters
+ * which are fetching
+ */
+export function createIsFetching(
+  filters?: MaybeReadable<QueryInfoFilters | undefined>,
+  queryClient?: QueryClient
+): Readable<number> {
+  const client = getQueryClientContext(queryClient)
+  const queryCache = client.getQueryCache()
+
+  const version = readable(0, set => {
+    let count = 0
+    return queryCache.subscribe(() => {
+      set(++count)
+    })
+  })
+
+  return derived([toReadable(filters), version], ([value]) =>
+    client.isFetching(value)
+  )
+}
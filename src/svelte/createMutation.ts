@@ -0,0 +1,57 @@
+import { Readable, get, readable } from 'svelte/store'
+
+import type { QueryClient } from '../vanilla'
+import {
+  ObservableMutationOptions,
+  ObservableMutationResult,
+  createObservableMutation,
+} from '../vanilla/observableMutation'
+import { getQueryClientContext } from './context'
+import { MaybeReadable, toReadable } from './utils'
+
+export interface CreateMutationOptions<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> extends ObservableMutationOptions<TData, TVars, TError, TContext> {}
+
+export type CreateMutationResult<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> = ObservableMutationResult<TData, TVars, TError, TContext>
+
+/**
+ * Tracks the last mutation triggered with `trigger`,
+ * the options may be a store.
+ * @returns a store of the state of the mutation and its functions
+ */
+export const createMutation = <
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+>(
+  mutationOptions: MaybeReadable<
+    CreateMutationOptions<TData, TVars, TError, TContext>
+  >,
+  queryClient?: QueryClient
+): Readable<CreateMutationResult<TData, TVars, TError, TContext>> => {
+  const client = getQueryClientContext(queryClient)
+  const options = toReadable(mutationOptions)
+  const obsMutation = createObservableMutation(client, get(options))
+
+  return readable(obsMutation.getCurrentResult(), set => {
+    const unsubscribeOptions = options.subscribe(value => {
+      obsMutation.setOptions(value)
+    })
+    const unsubscribe = obsMutation.subscribe(set)
+
+    return () => {
+      unsubscribe()
+      unsubscribeOptions()
+    }
+  })
+}
@@ -0,0 +1,114 @@
+import { Readable, derived, get, readable } from 'svelte/store'
+
+import { InfiniteData, InfiniteQuery, Query, QueryClient } from '../vanilla'
+import { ObservableInfiniteQueryResult } from '../vanilla/observableInfiniteQuery'
+import {
+  ObservableQueryOptions,
+  ObservableQueryResult,
+} from '../vanilla/observableQuery'
+import { GetVariablesOption } from '../vanilla/typeUtils'
+import { getQueryClientContext } from './context'
+import { MaybeReadable, toReadable } from './utils'
+
+export type CreateBaseQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TQueryData = TFetcherData,
+  TData = TQueryData
+> = Omit<
+  ObservableQueryOptions<TFetcherData, TVars, TError, TQueryData, TData>,
+  'suspense' | 'throwOnError' | '_optimisticResults'
+> &
+  GetVariablesOption<TVars>
+
+export type CreateQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = TFetcherData
+> = CreateBaseQueryOptions<TFetcherData, TVars, TError, TFetcherData, TData> & {
+  query: Query<TFetcherData, TVars, TError>
+}
+
+export type CreateQueryResult<
+  TData = unknown,
+  TError = unknown
+> = ObservableQueryResult<TData, TError>
+
+export type CreateInfiniteQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
+> = CreateBaseQueryOptions<
+  TFetcherData,
+  TVars,
+  TError,
+  InfiniteData<TFetcherData, TPageParam>,
+  TData
+> & {
+  query: InfiniteQuery<TFetcherData, TVars, TError, TPageParam>
+}
+
+export type CreateInfiniteQueryResult<
+  TData = unknown,
+  TError = unknown
+> = ObservableInfiniteQueryResult<TData, TError>
+
+/**
+ * Watches a query while the returned store has subscribers,
+ * the options may be a store to follow reactive variables.
+ * @returns a store of the latest result
+ */
+export function createQuery<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
+>(
+  options: MaybeReadable<
+    CreateInfiniteQueryOptions<TFetcherData, TVars, TError, TData, TPageParam>
+  >,
+  queryClient?: QueryClient
+): Readable<CreateInfiniteQueryResult<TData, TError>>
+export function createQuery<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = TFetcherData
+>(
+  options: MaybeReadable<
+    CreateQueryOptions<TFetcherData, TVars, TError, TData>
+  >,
+  queryClient?: QueryClient
+): Readable<CreateQueryResult<TData, TError>>
+export function createQuery(
+  options: MaybeReadable<CreateBaseQueryOptions<any, any, any, any, any>>,
+  queryClient?: QueryClient
+): Readable<any> {
+  const client = getQueryClientContext(queryClient)
+  const defaultedOptions = derived(toReadable(options), value =>
+    client.defaultQueryOptions(value as ObservableQueryOptions)
+  )
+  const obsQuery = client.watchQuery(get(defaultedOptions))
+
+  return readable(obsQuery.getCurrentResult(), set => {
+    const unsubscribeOptions = defaultedOptions.subscribe(value => {
+      obsQuery.setOptions(value)
+    })
+    const unsubscribe = obsQuery.subscribe(set)
+
+    // Update result to make sure we did not miss any query updates
+    // between creating the observer and subscribing to it.
+    obsQuery.updateResult()
+    set(obsQuery.getCurrentResult())
+
+    return () => {
+      unsubscribe()
+      unsubscribeOptions()
+    }
+  })
+}
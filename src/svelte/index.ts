@@ -0,0 +1,6 @@
+export * from '../vanilla'
+export * from './createQuery'
+export * from './createIsFetching'
+export * from './createMutation'
+export * from './context'
+export type { MaybeReadable } from './utils'
@@ -0,0 +1,57 @@
+import { get } from 'svelte/store'
+
+import { createQueryClient, mutation } from '../../vanilla'
+import type { QueryClient } from '../../vanilla'
+import { sleep } from '../../vanilla/utils'
+import { createMutation } from '../createMutation'
+
+describe('createMutation', () => {
+  let queryClient: QueryClient
+
+  const anMutation = mutation({
+    fetcher: async (text: string) => {
+      await sleep(10)
+      return text.toUpperCase()
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should hold the state of the last triggered mutation in a store', async () => {
+    const store = createMutation({ mutation: anMutation }, queryClient)
+    const unsubscribe = store.subscribe(() => {})
+
+    const promise = get(store).trigger('todo')
+
+    expect(get(store)).toMatchObject({ isMutating: true, variables: 'todo' })
+
+    await expect(promise).resolves.toBe('TODO')
+
+    expect(get(store)).toMatchObject({ isMutating: false, data: 'TODO' })
+
+    get(store).reset()
+
+    expect(get(store).data).toBeUndefined()
+
+    unsubscribe()
+  })
+
+  it('should cancel the last triggered mutation', async () => {
+    const store = createMutation({ mutation: anMutation }, queryClient)
+    const unsubscribe = store.subscribe(() => {})
+
+    const promise = get(store).trigger('todo')
+    get(store).cancel()
+
+    await expect(promise).rejects.toThrow()
+    expect(get(store).isCancelled).toBe(true)
+
+    unsubscribe()
+  })
+})
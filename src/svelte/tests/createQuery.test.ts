@@ -0,0 +1,121 @@
+import { get, writable } from 'svelte/store'
+
+import { createQueryClient, query } from '../../vanilla'
+import type { QueryClient } from '../../vanilla'
+import { generatekey, sleep } from '../../vanilla/utils'
+import { createIsFetching } from '../createIsFetching'
+import { createQuery } from '../createQuery'
+
+describe('createQuery', () => {
+  let queryClient: QueryClient
+
+  const anQuery = query({
+    key: generatekey(),
+    fetcher: async (id: number) => {
+      await sleep(10)
+      return `todo ${id}`
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should hold the latest result in a store', async () => {
+    const store = createQuery({ query: anQuery, variables: 1 }, queryClient)
+    const results: Array<string | undefined> = []
+    const unsubscribe = store.subscribe(result => {
+      results.push(result.data)
+    })
+
+    expect(get(store)).toMatchObject({ isLoading: true, isFetching: true })
+
+    await sleep(20)
+
+    expect(get(store)).toMatchObject({
+      isLoading: false,
+      isFetching: false,
+      data: 'todo 1',
+    })
+    expect(results.at(-1)).toBe('todo 1')
+
+    unsubscribe()
+  })
+
+  it('should only observe the query while the store has subscribers', async () => {
+    const store = createQuery({ query: anQuery, variables: 1 }, queryClient)
+    const getObserversCount = () =>
+      queryClient
+        .getQueryCache()
+        .find({ query: anQuery, variables: 1 })
+        ?.getObserversCount() ?? 0
+
+    expect(getObserversCount()).toBe(0)
+
+    const unsubscribe = store.subscribe(() => {})
+
+    expect(getObserversCount()).toBe(1)
+
+    unsubscribe()
+
+    expect(getObserversCount()).toBe(0)
+  })
+
+  it('should follow the options given as a store', async () => {
+    const options = writable({ query: anQuery, variables: 1 })
+    const store = createQuery(options, queryClient)
+    const unsubscribe = store.subscribe(() => {})
+
+    await sleep(20)
+    expect(get(store).data).toBe('todo 1')
+
+    options.set({ query: anQuery, variables: 2 })
+    await sleep(20)
+
+    expect(get(store).data).toBe('todo 2')
+
+    unsubscribe()
+  })
+
+  it('should use the default client outside of a component', async () => {
+    const store = createQuery({ query: anQuery, variables: 2 })
+    const unsubscribe = store.subscribe(() => {})
+
+    expect(get(store)).toMatchObject({ isFetching: true })
+
+    await sleep(20)
+
+    expect(get(store)).toMatchObject({ data: 'todo 2' })
+
+    unsubscribe()
+  })
+})
+
+describe('createIsFetching', () => {
+  it('should hold the number of fetching queries in a store', async () => {
+    const queryClient = createQueryClient()
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => sleep(10).then(() => 'data'),
+    })
+    const store = createIsFetching(undefined, queryClient)
+    const unsubscribe = store.subscribe(() => {})
+
+    expect(get(store)).toBe(0)
+
+    const promise = queryClient.fetchQuery({ query: anQuery })
+
+    expect(get(store)).toBe(1)
+
+    await promise
+
+    expect(get(store)).toBe(0)
+
+    unsubscribe()
+    queryClient.clear()
+  })
+})
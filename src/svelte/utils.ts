@@ -0,0 +1,11 @@
+import { Readable, readable } from 'svelte/store'
+
+import { isFunction } from '../vanilla/utils'
+
+export type MaybeReadable<T> = T | Readable<T>
+
+export const toReadable = <T>(value: MaybeReadable<T>): Readable<T> => {
+  return isFunction((value as Readable<T> | undefined)?.subscribe)
+    ? (value as Readable<T>)
+    : readable(value as T)
+}
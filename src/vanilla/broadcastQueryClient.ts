@@ -0,0 +1,183 @@
+import { PrimitiveQuery } from './primitiveQuery'
+import type { QueryClient } from './queryClient'
+import { QueryInfoState } from './queryInfo'
+import { isGeneratedKey } from './utils'
+
+/**
+ * The part of `BroadcastChannel` used to talk to other tabs,
+ * any object with the same shape can stand in for it.
+ */
+export interface BroadcastChannelLike {
+  postMessage: (message: BroadcastMessage) => void
+  onmessage: ((event: { data: BroadcastMessage }) => void) | null
+  close: () => void
+}
+
+export type BroadcastMessage =
+  | {
+      type: 'updated'
+      queryHash: string
+      /**
+       * The tab the update was made in
+       */
+      tabId: string
+      query: PrimitiveQuery
+      variables?: unknown
+      state: QueryInfoState<unknown, Error>
+    }
+  | {
+      type: 'invalidated'
+      queryHash: string
+    }
+  | {
+      type: 'removed'
+      queryHash: string
+    }
+
+export interface BroadcastQueryClientOptions {
+  client: QueryClient
+  /**
+   * The name of the `BroadcastChannel`, or the channel itself.
+   * Defaults to `quaere`.
+   */
+  channel?: string | BroadcastChannelLike
+}
+
+/**
+ * Mirrors data updates, invalidations and removals of the query cache
+ * to other tabs listening on the same channel.
+ * Queries with a generated key are not shared,
+ * as their keys are not guaranteed to match between tabs.
+ * @returns a function which stops the synchronization
+ */
+export const broadcastQueryClient = ({
+  client,
+  channel = 'quaere',
+}: BroadcastQueryClientOptions): (() => void) => {
+  const broadcastChannel =
+    typeof channel === 'string'
+      ? typeof BroadcastChannel !== 'undefined'
+        ? (new BroadcastChannel(channel) as BroadcastChannelLike)
+        : undefined
+      : channel
+
+  if (!broadcastChannel) {
+    return () => {}
+  }
+
+  const queryCache = client.getQueryCache()
+
+  // Breaks the ties between updates made in the same millisecond,
+  // so that all tabs keep the update of the same tab
+  const tabId = Math.random().toString(36).slice(2)
+
+  // Set while a message from another tab is applied,
+  // so the resulting cache events are not sent back
+  let transaction = false
+
+  const receive = (fn: () => void) => {
+    transaction = true
+    try {
+      fn()
+    } finally {
+      transaction = false
+    }
+  }
+
+  // Runs in the listeners of the cache, which must not throw,
+  // e.g. with a `DataCloneError` for data which can not be cloned
+  const post = (message: BroadcastMessage) => {
+    try {
+      broadcastChannel.postMessage(message)
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.error(error)
+      }
+    }
+  }
+
+  const unsubscribe = queryCache.subscribe(event => {
+    const { queryInfo } = event
+
+    if (transaction || isGeneratedKey(queryInfo.query.key)) {
+      return
+    }
+
+    const { queryHash } = queryInfo
+
+    if (event.type === 'updated' && event.action.type === 'success') {
+      post({
+        type: 'updated',
+        queryHash,
+        tabId,
+        query: {
+          key: queryInfo.query.key,
+          ...(queryInfo.query.$inf$ && { $inf$: true }),
+        } as PrimitiveQuery,
+        ...(typeof queryInfo.variables !== 'undefined' && {
+          variables: queryInfo.variables,
+        }),
+        state: queryInfo.state,
+      })
+    }
+
+    if (event.type === 'updated' && event.action.type === 'invalidate') {
+      post({ type: 'invalidated', queryHash })
+    }
+
+    if (event.type === 'removed') {
+      post({ type: 'removed', queryHash })
+    }
+  })
+
+  broadcastChannel.onmessage = ({ data: message }) => {
+    const queryInfo = queryCache.get(message.queryHash)
+
+    receive(() => {
+      switch (message.type) {
+        case 'updated': {
+          const { state } = message
+
+          if (!queryInfo) {
+            queryCache.build(
+              client,
+              {
+                query: message.query,
+                variables: message.variables,
+                queryHash: message.queryHash,
+              },
+              { ...state, fetchStatus: 'idle' }
+            )
+          } else if (
+            queryInfo.state.dataUpdatedAt < state.dataUpdatedAt ||
+            (queryInfo.state.dataUpdatedAt === state.dataUpdatedAt &&
+              tabId < message.tabId)
+          ) {
+            queryInfo.setData(state.data, { updatedAt: state.dataUpdatedAt })
+          }
+          break
+        }
+        case 'invalidated':
+          if (queryInfo) {
+            client.invalidateQueries({
+              predicate: x => x === queryInfo,
+            })
+          }
+          break
+        case 'removed':
+          // Queries still observed in this tab are kept,
+          // like they would be kept by the garbage collection
+          if (queryInfo && !queryInfo.getObserversCount()) {
+            queryCache.remove(queryInfo)
+          }
+          break
+      }
+    })
+  }
+
+  return () => {
+    unsubscribe()
+    broadcastChannel.onmessage = null
+    broadcastChannel.close()
+  }
+}
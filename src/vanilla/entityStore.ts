@@ -0,0 +1,282 @@
+import type { QueryCache } from './queryCache'
+import type { QueryInfo } from './queryInfo'
+import { Updater } from './typeUtils'
+import {
+  functionalUpdate,
+  hashKey,
+  isPlainObject,
+  isUndefined,
+  replaceData,
+  replaceEqualDeep,
+} from './utils'
+
+export type EntityId = string | number
+
+/**
+ * Tells which objects in the data of a query are entities,
+ * with an id extractor per entity type.
+ * An extractor returns `undefined` for objects which are not of its type.
+ *
+ * @example
+ * {
+ *   User: value => (value.__typename === 'User' ? value.id : undefined),
+ * }
+ */
+export type EntitySchema = Record<string, (value: any) => EntityId | undefined>
+
+interface EntityRef {
+  type: string
+  id: EntityId
+}
+
+const getEntityRef = (
+  schema: EntitySchema,
+  value: Record<string, unknown>
+): EntityRef | undefined => {
+  for (const type of Object.keys(schema)) {
+    const id = schema[type]!(value)
+
+    if (!isUndefined(id)) {
+      return { type, id }
+    }
+  }
+}
+
+const getEntityHash = ({ type, id }: EntityRef): string => hashKey([type, id])
+
+// Collects the entities found in `value`, by hash
+const collectEntities = (
+  schema: EntitySchema,
+  value: unknown,
+  found: Map<string, unknown>
+): Map<string, unknown> => {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectEntities(schema, item, found))
+  } else if (isPlainObject(value)) {
+    const ref = getEntityRef(schema, value as Record<string, unknown>)
+
+    if (ref) {
+      found.set(getEntityHash(ref), value)
+    }
+
+    Object.values(value as object).forEach(item =>
+      collectEntities(schema, item, found)
+    )
+  }
+
+  return found
+}
+
+// Returns a copy of `value` where the entities are taken from the store
+const denormalize = (
+  schema: EntitySchema,
+  value: unknown,
+  entities: Map<string, unknown>
+): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => denormalize(schema, item, entities))
+  }
+
+  if (!isPlainObject(value)) {
+    return value
+  }
+
+  const ref = getEntityRef(schema, value as Record<string, unknown>)
+  const entity = (ref && entities.get(getEntityHash(ref))) ?? value
+
+  if (!isPlainObject(entity)) {
+    return entity
+  }
+
+  const copy: Record<string, unknown> = {}
+
+  Object.keys(entity as object).forEach(key => {
+    copy[key] = denormalize(
+      schema,
+      (entity as Record<string, unknown>)[key],
+      entities
+    )
+  })
+
+  return copy
+}
+
+export interface EntityStore extends ReturnType<typeof createEntityStore> {}
+
+/**
+ * Keeps a single copy of the entities found in the data of queries
+ * declaring an `entities` schema.
+ * Writing an entity, either with `set` or by a query receiving new data,
+ * updates the data of every other query holding the same entity.
+ */
+export const createEntityStore = () => {
+  const entities = new Map<string, unknown>()
+
+  // The queries holding each entity, and the entities held by each query
+  const dependents = new Map<string, Set<QueryInfo<any, any, any, any>>>()
+  const queryEntities = new Map<QueryInfo<any, any, any, any>, string[]>()
+
+  const setDependencies = (
+    queryInfo: QueryInfo<any, any, any, any>,
+    hashes: string[]
+  ) => {
+    queryEntities.get(queryInfo)?.forEach(hash => {
+      const queries = dependents.get(hash)
+
+      queries?.delete(queryInfo)
+      if (queries && !queries.size) {
+        // Entities no query holds anymore are dropped with their last query
+        dependents.delete(hash)
+        entities.delete(hash)
+      }
+    })
+
+    hashes.forEach(hash => {
+      let queries = dependents.get(hash)
+      if (!queries) dependents.set(hash, (queries = new Set()))
+
+      queries.add(queryInfo)
+    })
+
+    if (hashes.length) {
+      queryEntities.set(queryInfo, hashes)
+    } else {
+      queryEntities.delete(queryInfo)
+    }
+  }
+
+  // Writes the entities into the store, returns the hashes of those which changed
+  const write = (found: Map<string, unknown>): string[] => {
+    const changed: string[] = []
+
+    found.forEach((entity, hash) => {
+      const prevEntity = entities.get(hash)
+      // Merged, as queries may hold different fields of the same entity
+      const nextEntity = replaceEqualDeep(
+        prevEntity,
+        isPlainObject(prevEntity) && isPlainObject(entity)
+          ? { ...(prevEntity as object), ...(entity as object) }
+          : entity
+      )
+
+      if (nextEntity !== prevEntity) {
+        entities.set(hash, nextEntity)
+        changed.push(hash)
+      }
+    })
+
+    return changed
+  }
+
+  // Updates the data of the queries holding the changed entities
+  const propagate = (
+    hashes: string[],
+    source?: QueryInfo<any, any, any, any>
+  ) => {
+    const queries = new Set<QueryInfo<any, any, any, any>>()
+
+    hashes.forEach(hash => {
+      dependents.get(hash)?.forEach(queryInfo => queries.add(queryInfo))
+    })
+    if (source) {
+      queries.delete(source)
+    }
+
+    queries.forEach(queryInfo => {
+      const { options, state } = queryInfo
+      const data = replaceData(
+        state.data,
+        denormalize(options.entities!, state.data, entities),
+        options
+      )
+
+      // The state is set as is, the data is neither fresher nor refetched
+      if (data !== state.data) {
+        queryInfo.setState({ ...state, data })
+      }
+    })
+  }
+
+  const normalize = (queryInfo: QueryInfo<any, any, any, any>) => {
+    const schema = queryInfo.options.entities
+    const { data } = queryInfo.state
+
+    if (!schema) {
+      return
+    }
+
+    const found = isUndefined(data)
+      ? new Map<string, unknown>()
+      : collectEntities(schema, data, new Map())
+
+    setDependencies(queryInfo, Array.from(found.keys()))
+    propagate(write(found), queryInfo)
+  }
+
+  const get = <TEntity = unknown>(
+    type: string,
+    id: EntityId
+  ): TEntity | undefined => {
+    return entities.get(getEntityHash({ type, id })) as TEntity | undefined
+  }
+
+  /**
+   * Writes an entity held by at least one query,
+   * and updates the data of every query holding it.
+   */
+  const set = <TEntity = unknown>(
+    type: string,
+    id: EntityId,
+    updater: Updater<TEntity | undefined, TEntity | undefined>
+  ): TEntity | undefined => {
+    const hash = getEntityHash({ type, id })
+
+    if (!dependents.has(hash)) {
+      return
+    }
+
+    const entity = functionalUpdate(updater, get<TEntity>(type, id))
+
+    if (!isUndefined(entity)) {
+      propagate(write(new Map([[hash, entity]])))
+    }
+
+    return get<TEntity>(type, id)
+  }
+
+  /**
+   * Keeps the store in sync with the queries of the cache,
+   * starting with the queries it already holds.
+   * @returns a function which stops the synchronization
+   */
+  const connect = (queryCache: QueryCache): (() => void) => {
+    queryCache.getAll().forEach(normalize)
+
+    const unsubscribe = queryCache.subscribe(event => {
+      if (event.type === 'removed') {
+        setDependencies(event.queryInfo, [])
+      } else if (
+        event.type === 'added' ||
+        event.action.type === 'success' ||
+        event.action.type === 'setState'
+      ) {
+        normalize(event.queryInfo)
+      }
+    })
+
+    return () => {
+      unsubscribe()
+
+      // Removed queries are no longer seen, so nothing is kept about them
+      dependents.clear()
+      queryEntities.clear()
+      entities.clear()
+    }
+  }
+
+  return {
+    get,
+    set,
+    connect,
+  }
+}
@@ -1,14 +1,53 @@
+import { Mutation, findMutation } from './mutation'
+import type {
+  MutationInfo,
+  MutationInfoOptions,
+  MutationInfoState,
+} from './mutationInfo'
 import { ObservableQueryOptions } from './observableQuery'
 import { PrimitiveQuery } from './primitiveQuery'
+import type { QueryCache } from './queryCache'
 import type { QueryClient } from './queryClient'
 import type { QueryInfo, QueryInfoState } from './queryInfo'
+import { CancelledError } from './retryer'
 import { QueryMeta } from './typeUtils'
-import { isGeneratedKey, isPlainObject } from './utils'
+import {
+  UNDEFINED,
+  isGeneratedKey,
+  isPlainObject,
+  isPromiseLike,
+  isUndefined,
+  noop,
+  warnGeneratedKey,
+} from './utils'
 
 // TYPES
 
 export interface DehydrateOptions {
+  /**
+   * Only successful queries are dehydrated by default,
+   * pending queries are dehydrated with the promise of their fetch
+   *
+   * @example
+   * queryInfo =>
+   *   defaultShouldDehydrateQuery(queryInfo) ||
+   *   queryInfo.state.status === 'pending'
+   */
   shouldDehydrateQuery?: (queryInfo: QueryInfo) => boolean
+  shouldDehydrateMutation?: (mutationInfo: MutationInfo) => boolean
+  /**
+   * Serializes the data and the error of the dehydrated queries,
+   * e.g. `toTaggedJson` for the values JSON can not represent.
+   * Errors are left as they are by default, use `toTaggedJson`
+   * for them to survive a JSON round trip.
+   */
+  serializeData?: (data: unknown) => unknown
+  /**
+   * Strips what the client should not see from the errors of the dehydrated queries,
+   * before they are serialized.
+   * Defaults to `defaultRedactErrors`.
+   */
+  redactErrors?: (error: unknown) => unknown
 }
 
 export interface HydrateOptions {
@@ -17,7 +56,15 @@ export interface HydrateOptions {
       ObservableQueryOptions<any, any, any>,
       'query' | '_defaulted'
     >
+    mutations?: Omit<
+      MutationInfoOptions<any, any, any>,
+      'mutation' | '_defaulted'
+    >
   }
+  /**
+   * Reverts the `serializeData` of `dehydrate`, e.g. `fromTaggedJson`
+   */
+  deserializeData?: (data: unknown) => unknown
 }
 
 interface DehydratedQuery {
@@ -26,32 +73,96 @@ interface DehydratedQuery {
   queryHash: string
   state: QueryInfoState<any, any>
   meta?: QueryMeta
+  /**
+   * The fetch in flight when dehydrated,
+   * for transports which can pass promises, such as server components
+   */
+  promise?: Promise<unknown>
+  /**
+   * Set by `streamDehydratedState`, the query settles in a later state
+   */
+  streaming?: boolean
+}
+
+interface DehydratedMutation {
+  mutation: Mutation<any, any, any>
+  state: MutationInfoState
+  meta?: QueryMeta
 }
 
 export type DehydratedState = {
   queries: DehydratedQuery[]
+  mutations: DehydratedMutation[]
+}
+
+// Transforms the data and the errors of a query state, if any
+const transformState = (
+  state: QueryInfoState<any, any>,
+  transformData: ((data: unknown) => unknown) | undefined,
+  transformError = transformData
+): QueryInfoState<any, any> => {
+  if (!transformData && !transformError) {
+    return state
+  }
+
+  const transformErrorIfAny = (error: unknown) =>
+    !transformError || error === null ? error : transformError(error)
+
+  return {
+    ...state,
+    data:
+      !transformData || isUndefined(state.data)
+        ? state.data
+        : transformData(state.data),
+    error: transformErrorIfAny(state.error),
+    fetchFailureReason: transformErrorIfAny(state.fetchFailureReason),
+  }
 }
 
 // Most config is not dehydrated but instead meant to configure again when
 // consuming the de/rehydrated data, typically with useQuery on the client.
 // Sometimes it might make sense to prefetch data on the server and include
 // in the html-payload, but not consume it on the initial render.
-const dehydrateQuery = ({
-  query,
-  queryHash,
-  state,
-  variables,
-  meta,
-}: QueryInfo): DehydratedQuery => {
+const dehydrateQuery = (
+  { query, queryHash, state, variables, meta, promise }: QueryInfo,
+  {
+    serializeData,
+    redactErrors = defaultRedactErrors,
+  }: Pick<DehydrateOptions, 'serializeData' | 'redactErrors'>
+): DehydratedQuery => {
+  if (promise) {
+    promise = promise.then(serializeData, error =>
+      Promise.reject(redactErrors(error))
+    )
+    // Rejects for the consumers of the dehydrated state only
+    promise.catch(noop)
+  }
+
   return {
     query: {
       key: query.key,
       ...(query.$inf$ && { $inf$: true }),
     } as PrimitiveQuery,
     queryHash,
-    state,
+    state: transformState(state, serializeData, error => {
+      const redactedError = redactErrors(error)
+      return serializeData ? serializeData(redactedError) : redactedError
+    }),
     ...(typeof variables !== 'undefined' && { variables }),
     ...(meta && { meta }),
+    ...(state.fetchStatus === 'fetching' && promise && { promise }),
+  }
+}
+
+const dehydrateMutation = ({
+  mutation,
+  state,
+  meta,
+}: MutationInfo): DehydratedMutation => {
+  return {
+    mutation: { key: mutation.key } as Mutation,
+    state,
+    ...(meta && { meta }),
   }
 }
 
@@ -59,6 +170,45 @@ export const defaultShouldDehydrateQuery = (queryInfo: QueryInfo) => {
   return queryInfo.state.status === 'success'
 }
 
+/**
+ * Also dehydrates the failed queries,
+ * so that the client renders their error instead of fetching again.
+ * Errors do not survive a JSON round trip,
+ * use `toTaggedJson` and `fromTaggedJson` as `serializeData` and `deserializeData`.
+ */
+export const shouldDehydrateQueryWithErrors = (queryInfo: QueryInfo) => {
+  return (
+    defaultShouldDehydrateQuery(queryInfo) || queryInfo.state.status === 'error'
+  )
+}
+
+const redacted = 'The error was redacted on the server'
+
+/**
+ * Keeps the name and the message of errors, without their stack.
+ * In production, the message is replaced, and values other than errors too.
+ */
+export const defaultRedactErrors = (error: unknown): unknown => {
+  if (!(error instanceof Error)) {
+    return process.env.NODE_ENV !== 'production' ? error : new Error(redacted)
+  }
+
+  const redactedError = new Error(
+    process.env.NODE_ENV !== 'production' ? error.message : redacted
+  )
+  redactedError.name = error.name
+  redactedError.stack = ''
+
+  return redactedError
+}
+
+export const defaultShouldDehydrateMutation = (mutationInfo: MutationInfo) => {
+  return (
+    mutationInfo.state.status === 'mutating' ||
+    mutationInfo.state.status === 'queued'
+  )
+}
+
 export const dehydrate = (
   client: QueryClient,
   options: DehydrateOptions = {}
@@ -69,15 +219,168 @@ export const dehydrate = (
   const queries = client
     .getQueryCache()
     .getAll()
-    .flatMap(queryInfo =>
-      !isGeneratedKey(queryInfo.query.key) && filterQuery(queryInfo)
-        ? [dehydrateQuery(queryInfo)]
-        : []
-    )
+    .flatMap(queryInfo => {
+      if (!filterQuery(queryInfo)) {
+        return []
+      }
+
+      if (isGeneratedKey(queryInfo.query.key)) {
+        if (process.env.NODE_ENV !== 'production') {
+          warnGeneratedKey(
+            queryInfo.query.key,
+            'A query is skipped by dehydrate.'
+          )
+        }
+        return []
+      }
+
+      return [dehydrateQuery(queryInfo, options)]
+    })
+
+  const filterMutation =
+    options.shouldDehydrateMutation ?? defaultShouldDehydrateMutation
 
-  return { queries }
+  const mutations = client
+    .getMutationCache()
+    .getAll()
+    .flatMap(mutationInfo => {
+      if (!filterMutation(mutationInfo)) {
+        return []
+      }
+
+      if (isGeneratedKey(mutationInfo.mutation.key)) {
+        if (process.env.NODE_ENV !== 'production') {
+          warnGeneratedKey(
+            mutationInfo.mutation.key,
+            'A mutation is skipped by dehydrate.'
+          )
+        }
+        return []
+      }
+
+      return [dehydrateMutation(mutationInfo)]
+    })
+
+  return { queries, mutations }
 }
 
+/**
+ * Prepares a dehydrated state for a streamed HTML response,
+ * where promises can not be serialized.
+ * Returns the state to send right away, in which pending queries are marked as streaming,
+ * and calls `onSettled` with the state of each pending query once its fetch settles,
+ * to be sent in a later chunk. Hydrating it settles the fetch attached on the client.
+ */
+export const streamDehydratedState = (
+  client: QueryClient,
+  dehydratedState: DehydratedState,
+  onSettled: (dehydratedState: DehydratedState) => void,
+  options: Pick<DehydrateOptions, 'serializeData' | 'redactErrors'> = {}
+): DehydratedState => {
+  const queryCache = client.getQueryCache()
+
+  const queries = dehydratedState.queries.map(
+    ({ promise, ...dehydratedQuery }) => {
+      if (!promise) {
+        return dehydratedQuery
+      }
+
+      const settle = () => {
+        const queryInfo = queryCache.get(dehydratedQuery.queryHash)
+
+        if (queryInfo) {
+          onSettled({
+            queries: [dehydrateQuery(queryInfo, options)],
+            mutations: [],
+          })
+        }
+      }
+
+      promise.then(settle, settle)
+
+      return { ...dehydratedQuery, streaming: true }
+    }
+  )
+
+  return { ...dehydratedState, queries }
+}
+
+interface StreamingQuery {
+  resolve: (data: unknown) => void
+  reject: (error: unknown) => void
+}
+
+// The fetches waiting for a streamed query to settle, by queryHash
+const streamingQueries = new WeakMap<QueryCache, Map<string, StreamingQuery>>()
+
+const waitForStreamedQuery = (
+  queryCache: QueryCache,
+  queryHash: string
+): Promise<unknown> => {
+  let pending = streamingQueries.get(queryCache)
+  if (!pending) streamingQueries.set(queryCache, (pending = new Map()))
+
+  const waiting = pending
+
+  // A new wait replaces the previous one
+  waiting.get(queryHash)?.reject(new CancelledError({ silent: true }))
+
+  return new Promise((resolve, reject) => {
+    const streamingQuery: StreamingQuery = {
+      resolve: data => {
+        unsubscribe()
+        resolve(data)
+      },
+      reject: error => {
+        unsubscribe()
+        reject(error)
+      },
+    }
+
+    // Stops waiting once the query is removed, e.g. on `client.clear()`,
+    // the rest of the stream may never come
+    const unsubscribe = queryCache.subscribe(event => {
+      if (
+        event.type === 'removed' &&
+        event.queryInfo.queryHash === queryHash &&
+        waiting.get(queryHash) === streamingQuery
+      ) {
+        waiting.delete(queryHash)
+        streamingQuery.reject(new CancelledError({ silent: true }))
+      }
+    })
+
+    waiting.set(queryHash, streamingQuery)
+  })
+}
+
+// Settles the fetch waiting for a streamed query, if any
+const settleStreamedQuery = (
+  queryCache: QueryCache,
+  queryHash: string,
+  state: QueryInfoState<any, any>
+): boolean => {
+  const pending = streamingQueries.get(queryCache)
+  const streamingQuery = pending?.get(queryHash)
+
+  if (!streamingQuery || state.status === 'pending') {
+    return false
+  }
+
+  pending!.delete(queryHash)
+
+  if (state.status === 'error') {
+    streamingQuery.reject(state.error)
+  } else {
+    streamingQuery.resolve(state.data)
+  }
+
+  return true
+}
+
+const getUpdatedAt = (state: QueryInfoState<any, any>): number =>
+  Math.max(state.dataUpdatedAt, state.errorUpdatedAt)
+
 export const hydrate = (
   client: QueryClient,
   dehydratedState: unknown,
@@ -88,11 +391,36 @@ export const hydrate = (
   }
 
   const queryCache = client.getQueryCache()
+  const mutationCache = client.getMutationCache()
+
+  const { queries = [], mutations = [] } =
+    (dehydratedState as DehydratedState) || {}
+
+  mutations.forEach(({ state, mutation, meta }) => {
+    // Restore mutationInfo, a mutation restored in the `mutating` state
+    // can be resumed with `client.resumePausedMutations()`
+    mutationCache.build(
+      client,
+      {
+        ...options?.defaultOptions?.mutations,
+        mutation: findMutation(mutation.key) ?? mutation,
+        ...(meta && { meta }),
+      },
+      state
+    )
+  })
 
-  const { queries } = (dehydratedState as DehydratedState) || {}
+  queries.forEach(({ state, promise, streaming, ...queryOptions }) => {
+    const { queryHash } = queryOptions
+    const deserializeData = options?.deserializeData
+    state = transformState(state, deserializeData)
 
-  queries.forEach(({ state, ...queryOptions }) => {
-    const queryInfo = queryCache.get(queryOptions.queryHash)
+    // The fetch attached to a streamed query settles with its data
+    if (settleStreamedQuery(queryCache, queryHash, state)) {
+      return
+    }
+
+    let queryInfo = queryCache.get(queryHash)
 
     // Reset fetch status to idle in the dehydrated state to avoid
     // queryInfo being stuck in fetching state upon hydration
@@ -101,22 +429,45 @@ export const hydrate = (
       fetchStatus: 'idle' as const,
     }
 
-    // Do not hydrate if an existing queryInfo exists with newer data
+    // Whether the dehydrated state is used, the client may hold newer data
+    let isHydrated = true
+
     if (queryInfo) {
-      if (queryInfo.state.dataUpdatedAt < dehydratedQueryState.dataUpdatedAt) {
+      // Do not hydrate if an existing queryInfo exists with newer data,
+      // errors count too, a failed query never updated its data
+      isHydrated =
+        getUpdatedAt(queryInfo.state) < getUpdatedAt(dehydratedQueryState)
+
+      if (isHydrated) {
         queryInfo.setState(dehydratedQueryState)
       }
-      return
+    } else {
+      // Restore queryInfo
+      queryInfo = queryCache.build(
+        client,
+        {
+          ...options?.defaultOptions?.queries,
+          ...queryOptions,
+        },
+        dehydratedQueryState
+      )
     }
 
-    // Restore queryInfo
-    queryCache.build(
-      client,
-      {
-        ...options?.defaultOptions?.queries,
-        ...queryOptions,
-      },
-      dehydratedQueryState
-    )
+    // Attach to the fetch in flight on the server, so that suspense
+    // waits for it instead of fetching again.
+    // Its result is older than the data of the client, if that is newer
+    if (isHydrated && queryInfo.state.fetchStatus === 'idle') {
+      const initialPromise = isPromiseLike(promise)
+        ? deserializeData
+          ? promise.then(deserializeData)
+          : promise
+        : streaming
+        ? waitForStreamedQuery(queryCache, queryHash)
+        : UNDEFINED
+
+      if (initialPromise) {
+        queryInfo.fetch(UNDEFINED, { initialPromise }).catch(noop)
+      }
+    }
   })
 }
@@ -1,10 +1,18 @@
 export * from './query'
 export * from './queryWithInfinite'
+export * from './subscriptionQuery'
 export * from './queryClient'
 export * from './mutation'
+export * from './observableMutation'
 export * from './hydration'
+export * from './taggedJson'
+export * from './persistQueryClient'
+export * from './storagePersister'
+export * from './broadcastQueryClient'
 export * from './queryCache'
 export * from './mutationCache'
+export * from './lruQueryStore'
+export * from './entityStore'
 export * from './types'
 export { onlineManager, type OnlineManager } from './onlineManager'
 export { focusManager, type FocusManager } from './focusManager'
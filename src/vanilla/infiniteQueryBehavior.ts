@@ -3,43 +3,66 @@ import { QueryFunctionContext } from './typeUtils'
 import { InfiniteData } from './types'
 import { addToEnd, addToStart } from './utils'
 
-export type GetPreviousPageParamFunction<TFetcherData = unknown> = (
+export type GetPreviousPageParamFunction<
+  TFetcherData = unknown,
+  TPageParam = unknown
+> = (
   firstPage: TFetcherData,
   allPages: TFetcherData[],
-  firstPageParam: number,
-  allPageParams: number[]
-) => number | undefined | null
-
-export type GetNextPageParamFunction<TFetcherData = unknown> = (
+  firstPageParam: TPageParam,
+  allPageParams: TPageParam[]
+) => TPageParam | undefined | null
+
+export type GetNextPageParamFunction<
+  TFetcherData = unknown,
+  TPageParam = unknown
+> = (
   lastPage: TFetcherData,
   allPages: TFetcherData[],
-  lastPageParam: number,
-  allPageParams: number[]
-) => number | undefined | null
-
-export interface InfiniteQueryPageParamsOptions<TFetcherData = unknown> {
+  lastPageParam: TPageParam,
+  allPageParams: TPageParam[]
+) => TPageParam | undefined | null
+
+export interface InfiniteQueryPageParamsOptions<
+  TFetcherData = unknown,
+  TPageParam = unknown
+> {
   /**
    * This function can be set to automatically get the previous cursor for infinite queries.
    * The result will also be used to determine the value of `hasPreviousPage`.
    */
-  getPreviousPageParam?: GetPreviousPageParamFunction<TFetcherData>
+  getPreviousPageParam?: GetPreviousPageParamFunction<TFetcherData, TPageParam>
   /**
    * This function can be set to automatically get the next cursor for infinite queries.
    * The result will also be used to determine the value of `hasNextPage`.
    */
-  getNextPageParam: GetNextPageParamFunction<TFetcherData>
+  getNextPageParam: GetNextPageParamFunction<TFetcherData, TPageParam>
 
-  initialPageParam: number
+  initialPageParam: TPageParam
 }
 
-export const createInfiniteQueryBehavior = <TFetcherData, TVars, TError, TData>(
+export const createInfiniteQueryBehavior = <
+  TFetcherData,
+  TVars,
+  TError,
+  TData,
+  TPageParam = unknown
+>(
   pages?: number
-): QueryBehavior<TFetcherData, TVars, TError, InfiniteData<TData>> => {
+): QueryBehavior<
+  TFetcherData,
+  TVars,
+  TError,
+  InfiniteData<TData, TPageParam>
+> => {
   return {
     onFetch: context => {
       context.fetchFn = async () => {
         const options =
-          context.options as unknown as InfiniteQueryPageParamsOptions<TFetcherData>
+          context.options as unknown as InfiniteQueryPageParamsOptions<
+            TFetcherData,
+            TPageParam
+          >
         const direction = context.fetchOptions?.meta?.fetchMore?.direction
         const oldPages = context.state.data?.pages || []
         const oldPageParams = context.state.data?.pageParams || []
@@ -72,10 +95,10 @@ export const createInfiniteQueryBehavior = <TFetcherData, TVars, TError, TData>(
 
         // Create function to fetch a page
         const fetchPage = async (
-          data: InfiniteData<unknown>,
-          param: number,
+          data: InfiniteData<unknown, TPageParam>,
+          param: TPageParam,
           previous?: boolean
-        ): Promise<InfiniteData<unknown>> => {
+        ): Promise<InfiniteData<unknown, TPageParam>> => {
           if (cancelled) {
             return Promise.reject()
           }
@@ -84,7 +107,7 @@ export const createInfiniteQueryBehavior = <TFetcherData, TVars, TError, TData>(
             return Promise.resolve(data)
           }
 
-          const queryFnContext: Omit<QueryFunctionContext<number>, 'signal'> = {
+          const queryFnContext: Omit<QueryFunctionContext<any>, 'signal'> = {
             pageParam: param,
             direction: previous ? 'backward' : 'forward',
             meta: context.options.meta,
@@ -94,7 +117,7 @@ export const createInfiniteQueryBehavior = <TFetcherData, TVars, TError, TData>(
 
           const page = await fetcher(
             context.variables,
-            queryFnContext as QueryFunctionContext<number>
+            queryFnContext as QueryFunctionContext<any>
           )
 
           const { maxPages } = context.options
@@ -106,7 +129,7 @@ export const createInfiniteQueryBehavior = <TFetcherData, TVars, TError, TData>(
           }
         }
 
-        let result: InfiniteData<unknown>
+        let result: InfiniteData<unknown, TPageParam>
 
         // fetch next / previous page?
         if (direction && oldPages.length) {
@@ -141,10 +164,10 @@ export const createInfiniteQueryBehavior = <TFetcherData, TVars, TError, TData>(
   }
 }
 
-const getNextPageParam = (
-  options: InfiniteQueryPageParamsOptions<any>,
-  { pages, pageParams }: InfiniteData<unknown>
-): number | undefined | null => {
+const getNextPageParam = <TPageParam>(
+  options: InfiniteQueryPageParamsOptions<any, TPageParam>,
+  { pages, pageParams }: InfiniteData<unknown, TPageParam>
+): TPageParam | undefined | null => {
   const lastIndex = pages.length - 1
   return options.getNextPageParam(
     pages[lastIndex],
@@ -154,10 +177,10 @@ const getNextPageParam = (
   )
 }
 
-const getPreviousPageParam = (
-  options: InfiniteQueryPageParamsOptions<any>,
-  { pages, pageParams }: InfiniteData<unknown>
-): number | undefined | null => {
+const getPreviousPageParam = <TPageParam>(
+  options: InfiniteQueryPageParamsOptions<any, TPageParam>,
+  { pages, pageParams }: InfiniteData<unknown, TPageParam>
+): TPageParam | undefined | null => {
   return options.getPreviousPageParam?.(
     pages[0],
     pages,
@@ -169,9 +192,9 @@ const getPreviousPageParam = (
 /**
  * Checks if there is a next page.
  */
-export const hasNextPage = (
-  options: InfiniteQueryPageParamsOptions<any>,
-  data?: InfiniteData<unknown>
+export const hasNextPage = <TPageParam>(
+  options: InfiniteQueryPageParamsOptions<any, TPageParam>,
+  data?: InfiniteData<unknown, TPageParam>
 ): boolean => {
   if (!data) return false
   return getNextPageParam(options, data) != null
@@ -180,9 +203,9 @@ export const hasNextPage = (
 /**
  * Checks if there is a previous page.
  */
-export const hasPreviousPage = (
-  options: InfiniteQueryPageParamsOptions<any>,
-  data?: InfiniteData<unknown>
+export const hasPreviousPage = <TPageParam>(
+  options: InfiniteQueryPageParamsOptions<any, TPageParam>,
+  data?: InfiniteData<unknown, TPageParam>
 ): boolean => {
   if (!data || !options.getPreviousPageParam) return false
   return getPreviousPageParam(options, data) != null
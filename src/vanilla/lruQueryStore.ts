@@ -0,0 +1,122 @@
+import type { QueryStore } from './queryCache'
+import type { QueryInfo } from './queryInfo'
+
+export interface LruQueryStoreOptions {
+  /**
+   * The maximum number of queries to keep, defaults to `Infinity`.
+   */
+  maxEntries?: number
+  /**
+   * The maximum total size of the queries to keep, as measured by `sizeOf`.
+   * Defaults to `Infinity`.
+   */
+  maxBytes?: number
+  /**
+   * Measures the size of a query,
+   * defaults to the length of its data serialized as JSON.
+   */
+  sizeOf?: (queryInfo: QueryInfo<any, any, any>) => number
+}
+
+const defaultSizeOf = (queryInfo: QueryInfo<any, any, any>): number => {
+  try {
+    return JSON.stringify(queryInfo.state.data)?.length ?? 0
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * A query store which evicts the least recently used queries
+ * once it holds more than `maxEntries` queries or more than `maxBytes`.
+ * Queries with observers or which are fetching are never evicted,
+ * the store may stay over its bounds until they become inactive.
+ *
+ * @example
+ * createQueryClient({
+ *   queryCache: createQueryCache({
+ *     createStore: () => createLruQueryStore({ maxEntries: 100 }),
+ *   }),
+ * })
+ */
+export const createLruQueryStore = ({
+  maxEntries = Infinity,
+  maxBytes = Infinity,
+  sizeOf = defaultSizeOf,
+}: LruQueryStoreOptions = {}): QueryStore => {
+  // Iterated from the least to the most recently used
+  const queries = new Map<string, QueryInfo<any, any, any>>()
+
+  // Sizes are measured again only when the data changes,
+  // a fetching query keeps its last size until the fetch settles
+  const sizes = new Map<string, { data: unknown; size: number }>()
+
+  const getSize = (queryInfo: QueryInfo<any, any, any>): number => {
+    if (maxBytes === Infinity) {
+      return 0
+    }
+
+    const { data, fetchStatus } = queryInfo.state
+    let entry = sizes.get(queryInfo.queryHash)
+
+    if (!entry || (entry.data !== data && fetchStatus === 'idle')) {
+      entry = { data, size: sizeOf(queryInfo) }
+      sizes.set(queryInfo.queryHash, entry)
+    }
+
+    return entry.size
+  }
+
+  const touch = (queryKey: string, queryInfo: QueryInfo<any, any, any>) => {
+    queries.delete(queryKey)
+    queries.set(queryKey, queryInfo)
+  }
+
+  const getEvicted = (): Array<QueryInfo<any, any, any>> => {
+    const evicted: Array<QueryInfo<any, any, any>> = []
+    const candidates = Array.from(queries.values())
+
+    let entries = candidates.length
+    let bytes = candidates.reduce((total, q) => total + getSize(q), 0)
+
+    // The most recently used query is kept, it may not be observed yet
+    for (const queryInfo of candidates.slice(0, -1)) {
+      if (entries <= maxEntries && bytes <= maxBytes) {
+        break
+      }
+
+      if (
+        queryInfo.getObserversCount() ||
+        queryInfo.state.fetchStatus !== 'idle'
+      ) {
+        continue
+      }
+
+      evicted.push(queryInfo)
+      entries--
+      bytes -= getSize(queryInfo)
+    }
+
+    return evicted
+  }
+
+  return {
+    has: queryKey => queries.has(queryKey),
+    set: (queryKey, queryInfo) => touch(queryKey, queryInfo),
+    get: queryKey => {
+      const queryInfo = queries.get(queryKey)
+
+      if (queryInfo) {
+        touch(queryKey, queryInfo)
+      }
+
+      return queryInfo
+    },
+    delete: queryKey => {
+      queries.delete(queryKey)
+      sizes.delete(queryKey)
+    },
+    values: () => queries.values(),
+    getEvicted,
+  }
+}
@@ -4,24 +4,71 @@ import { generatekey } from './utils'
 export interface MutationOptions<
   TData = unknown,
   TVars = void,
-  TError = Error
-> extends Omit<MutationInfoOptions<TData, TVars, TError>, 'mutation'> {
+  TError = Error,
+  TContext = unknown
+> extends Omit<
+    MutationInfoOptions<TData, TVars, TError, TContext>,
+    'mutation'
+  > {
+  /**
+   * Mutations need a stable key to be dehydrated,
+   * which is what allows paused mutations to be resumed after a reload.
+   */
+  key?: string
   fetcher: (
     variables: TVars,
     context: MutationFunctionContext
   ) => Promise<TData>
 }
 
-export interface Mutation<TData = unknown, TVars = void, TError = Error>
-  extends MutationOptions<TData, TVars, TError> {
+export interface Mutation<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> extends MutationOptions<TData, TVars, TError, TContext> {
   key: string
 }
 
-export const mutation = <TData = unknown, TVars = void, TError = Error>(
-  options: MutationOptions<TData, TVars, TError>
-): Mutation<TData, TVars, TError> => {
-  return {
+const keyedMutations = new Map<string, Mutation<any, any, any, any>>()
+
+export const mutation = <
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+>(
+  options: MutationOptions<TData, TVars, TError, TContext>
+): Mutation<TData, TVars, TError, TContext> => {
+  const result = {
     ...options,
-    key: generatekey(),
+    key: options.key ?? generatekey(),
+  }
+
+  // Keyed mutations are remembered so that hydrated mutations
+  // can find their fetcher again
+  if (options.key) {
+    keyedMutations.set(options.key, result)
+  }
+
+  return result
+}
+
+export const findMutation = (
+  key: string
+): Mutation<any, any, any, any> | undefined => {
+  return keyedMutations.get(key)
+}
+
+/**
+ * Stops remembering a keyed mutation for `hydrate`.
+ * Mutations defined once at the module level never need it,
+ * mutations defined on the fly should be forgotten once unused.
+ */
+export const forgetMutation = (
+  mutation: Mutation<any, any, any, any>
+): void => {
+  if (keyedMutations.get(mutation.key) === mutation) {
+    keyedMutations.delete(mutation.key)
   }
 }
@@ -3,16 +3,33 @@ import {
   Action,
   MutationInfo,
   MutationInfoOptions,
+  MutationInfoState,
   MutationStatus,
   createMutationInfo,
 } from './mutationInfo'
+import { PrimitiveQuery } from './primitiveQuery'
 import { QueryClient } from './queryClient'
 import { DeepPartial, NotifyEvent } from './typeUtils'
-import { UNDEFINED, getFullKey, hashKey, partialMatchKey } from './utils'
+import {
+  UNDEFINED,
+  getFullKey,
+  hashKey,
+  isFunction,
+  isUndefined,
+  noop,
+  partialMatchKey,
+} from './utils'
 
 export interface MutationCache extends ReturnType<typeof createMutationCache> {}
 
 export interface MutationCacheConfig {
+  /**
+   * Runs before every mutation, ahead of the mutation's own `onMutate`
+   */
+  onMutate?: (
+    variables: unknown,
+    mutationInfo: MutationInfo
+  ) => Promise<unknown> | unknown
   onSuccess?: (
     data: unknown,
     variables: unknown,
@@ -33,17 +50,17 @@ export interface MutationCacheConfig {
 
 interface NotifyEventMutationAdded<TData, TVars, TError> extends NotifyEvent {
   type: 'added'
-  mutationInfo: MutationInfo<TData, TVars, TError>
+  mutationInfo: MutationInfo<TData, TVars, TError, any>
 }
 interface NotifyEventMutationRemoved<TData, TVars, TError> extends NotifyEvent {
   type: 'removed'
-  mutationInfo: MutationInfo<TData, TVars, TError>
+  mutationInfo: MutationInfo<TData, TVars, TError, any>
 }
 
 interface NotifyEventMutationUpdated<TData, TVars, TError> extends NotifyEvent {
   type: 'updated'
-  mutationInfo: MutationInfo<TData, TVars, TError>
-  action: Action<TData, TVars, TError>
+  mutationInfo: MutationInfo<TData, TVars, TError, any>
+  action: Action<TData, TVars, TError, any>
 }
 
 export type MutationCacheNotifyEvent<TData, TVars, TError> =
@@ -56,10 +73,13 @@ export type MutationCacheListener<TData, TVars, TError> = (
 ) => void
 
 export const createMutationCache = (config: MutationCacheConfig = {}) => {
-  let mutations: MutationInfo<any, any, any>[] = []
+  let mutations: MutationInfo<any, any, any, any>[] = []
   let lastUpdated = 0
+  let lastMutationId = 0
 
   const listeners = new Set<MutationCacheListener<any, any, any>>()
+  // The last mutation of every scope, settled or not
+  const scopes = new Map<string, Promise<unknown>>()
 
   function subscribe<TData = unknown, TVars = unknown, TError = Error>(
     filters: MutationInfoFilters<TData, TVars, TError>,
@@ -93,13 +113,22 @@ export const createMutationCache = (config: MutationCacheConfig = {}) => {
     listeners.forEach(listener => listener(event))
   }
 
-  const build = <TData = unknown, TVars = unknown, TError = Error>(
+  const build = <
+    TData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TContext = unknown
+  >(
     client: QueryClient,
-    options: MutationInfoOptions<TData, TVars, TError>
-  ): MutationInfo<TData, TVars, TError> => {
+    options: MutationInfoOptions<TData, TVars, TError, TContext>,
+    state?: MutationInfoState<TData, TVars, TError, TContext>
+  ): MutationInfo<TData, TVars, TError, TContext> => {
     const mutationInfo = createMutationInfo({
       cache,
+      client,
+      mutationId: ++lastMutationId,
       options: client.defaultMutationOptions(options),
+      state,
     })
 
     mutations.push(mutationInfo)
@@ -112,7 +141,7 @@ export const createMutationCache = (config: MutationCacheConfig = {}) => {
     return mutationInfo
   }
 
-  const remove = (mutationInfo: MutationInfo<any, any, any>): void => {
+  const remove = (mutationInfo: MutationInfo<any, any, any, any>): void => {
     mutations = mutations.filter(x => x !== mutationInfo)
     notify({
       type: 'removed',
@@ -128,6 +157,7 @@ export const createMutationCache = (config: MutationCacheConfig = {}) => {
       })
     })
     mutations = []
+    scopes.clear()
   }
 
   const getAll = (): MutationInfo[] => {
@@ -150,6 +180,76 @@ export const createMutationCache = (config: MutationCacheConfig = {}) => {
     ) as unknown as MutationInfo<TData, TVars, TError>[]
   }
 
+  const runInScope = <T>(
+    scopeId: string | undefined,
+    fn: () => Promise<T>,
+    onQueued: () => void
+  ): Promise<T> => {
+    if (isUndefined(scopeId)) {
+      return fn()
+    }
+
+    const previous = scopes.get(scopeId)
+    if (previous) {
+      onQueued()
+    }
+
+    const promise = previous ? previous.then(fn) : fn()
+    const last: Promise<unknown> = promise.catch(noop).then(() => {
+      if (scopes.get(scopeId) === last) {
+        scopes.delete(scopeId)
+      }
+    })
+    scopes.set(scopeId, last)
+
+    return promise
+  }
+
+  // Applies the `invalidates` and `invalidatesTags` options of a successful mutation
+  const invalidateQueries = <TData, TVars>(
+    client: QueryClient,
+    {
+      invalidates = [],
+      invalidatesTags = [],
+    }: Pick<
+      MutationInfoOptions<TData, TVars, any, any>,
+      'invalidates' | 'invalidatesTags'
+    >,
+    data: TData,
+    variables: TVars
+  ): Promise<unknown> => {
+    const entries = isFunction(invalidates)
+      ? invalidates(data, variables)
+      : invalidates
+    const tags = isFunction(invalidatesTags)
+      ? invalidatesTags(data, variables)
+      : invalidatesTags
+
+    return Promise.all([
+      ...entries.map(entry =>
+        client.invalidateQueries(
+          'key' in entry ? { query: entry as PrimitiveQuery } : entry
+        )
+      ),
+      tags.length && client.invalidateQueries({ tags }),
+    ])
+  }
+
+  const resumePausedMutations = (): Promise<unknown> => {
+    const pausedMutations = mutations.filter(
+      mutationInfo =>
+        mutationInfo.state.status === 'mutating' ||
+        mutationInfo.state.status === 'queued'
+    )
+
+    // Paused mutations are resumed one after another, in the order they were triggered
+    return pausedMutations.reduce(
+      (promise, mutationInfo) =>
+        promise.then(() => mutationInfo.continue().catch(noop)),
+      Promise.resolve() as Promise<unknown>
+    )
+  }
+
   const cache = {
     build,
     remove,
@@ -157,6 +257,9 @@ export const createMutationCache = (config: MutationCacheConfig = {}) => {
     getAll,
     find,
     findAll,
+    runInScope,
+    invalidateQueries,
+    resumePausedMutations,
     subscribe,
     notify,
     config,
@@ -180,7 +283,7 @@ export interface MutationInfoFilters<
   /**
    * Include mutations matching this mutation key
    */
-  mutation?: Mutation<TData, TVars, TError>
+  mutation?: Mutation<TData, TVars, TError, any>
   /**
    * Filter by mutation status
    */
@@ -197,7 +300,7 @@ export interface MutationInfoFilters<
 
 const matchMutationInfo = (
   filters: MutationInfoFilters<any, any, any>,
-  mutationInfo: MutationInfo<any, any, any>
+  mutationInfo: MutationInfo<any, any, any, any>
 ): boolean => {
   const { status, variables, predicate, mutation, exact } = filters
 
@@ -1,65 +1,136 @@
 import { createGcManager } from './gcManager'
 import { Mutation } from './mutation'
 import { MutationCache } from './mutationCache'
+import type { PrimitiveQuery } from './primitiveQuery'
+import type { QueryTag } from './queryCache'
+import type { InvalidateQueryFilters, QueryClient } from './queryClient'
 import {
+  CancelledError,
   NetworkMode,
   RetryDelayValue,
   RetryValue,
   Retryer,
   createRetryer,
+  isCancelledError,
 } from './retryer'
 import { createSubscribable } from './subscribable'
 import { QueryMeta } from './typeUtils'
-import { UNDEFINED } from './utils'
+import { UNDEFINED, isFunction, noop } from './utils'
 
 export type MutationFunctionContext = {
   meta: QueryMeta | undefined
+  /**
+   * Aborted when the mutation is cancelled
+   */
+  signal: AbortSignal
 }
 
 export interface MutationInfoConfig<
   TData = unknown,
   TVars = unknown,
-  TError = Error
+  TError = Error,
+  TContext = unknown
 > {
-  options: MutationInfoOptions<TData, TVars, TError>
+  options: MutationInfoOptions<TData, TVars, TError, TContext>
   cache: MutationCache
+  client: QueryClient
+  mutationId: number
+  state?: MutationInfoState<TData, TVars, TError, TContext>
 }
 
-export type MutationStatus = 'idle' | 'mutating' | 'success' | 'error'
+export type MutationInvalidates<TData = unknown, TVars = unknown> =
+  | Array<
+      | PrimitiveQuery<any, any, any, any>
+      | InvalidateQueryFilters<any, any, any, any>
+    >
+  | ((
+      data: TData,
+      variables: TVars
+    ) => InvalidateQueryFilters<any, any, any, any>[])
+
+export type MutationStatus =
+  | 'idle'
+  | 'queued'
+  | 'mutating'
+  | 'success'
+  | 'error'
+  | 'cancelled'
 
 export interface MutationInfoState<
   TData = unknown,
   TVars = unknown,
-  TError = Error
+  TError = Error,
+  TContext = unknown
 > {
   data?: TData
   error: TError | null
   status: MutationStatus
   variables?: TVars
+  /**
+   * The number of times the mutation has failed, reset when it is triggered
+   */
+  failureCount: number
+  /**
+   * The error of the last failed attempt, also set while a retry is pending
+   */
+  failureReason: TError | null
+  /**
+   * The value returned by `onMutate`
+   */
+  context?: TContext
 }
 
 export interface MutationInfoOptions<
   TData = unknown,
   TVars = unknown,
-  TError = Error
+  TError = Error,
+  TContext = unknown
 > {
-  mutation: Mutation<TData, TVars, TError>
+  mutation: Mutation<TData, TVars, TError, TContext>
+  /**
+   * Mutations sharing a scope run one after another, in the order they
+   * were triggered. Waiting mutations have the `queued` status.
+   */
+  scope?: string | ((variables: TVars) => string | undefined)
+  /**
+   * Runs before the fetcher. Whatever it returns is kept as `state.context`
+   * and handed to `onSuccess`, `onError` and `onSettled`,
+   * e.g. a snapshot to roll optimistic updates back to.
+   */
+  onMutate?: (
+    variables: TVars,
+    mutationInfo: MutationInfo<TData, TVars, TError, TContext>
+  ) => Promise<TContext | undefined> | TContext | undefined
   onSuccess?: (
     data: TData,
     variables: TVars,
-    mutationInfo: MutationInfo<TData, TVars, TError>
+    mutationInfo: MutationInfo<TData, TVars, TError, TContext>,
+    context: TContext | undefined
   ) => Promise<unknown> | unknown
   onError?: (
     error: unknown,
     variables: TVars,
-    mutationInfo: MutationInfo<TData, TVars, TError>
+    mutationInfo: MutationInfo<TData, TVars, TError, TContext>,
+    context: TContext | undefined
   ) => Promise<unknown> | unknown
   onSettled?: (
     data: TData | undefined,
     error: unknown | null,
     variables: TVars,
-    mutationInfo: MutationInfo<TData, TVars, TError>
+    mutationInfo: MutationInfo<TData, TVars, TError, TContext>,
+    context: TContext | undefined
   ) => Promise<unknown> | unknown
+  /**
+   * The queries to invalidate once the mutation succeeds, after `onSuccess`.
+   * Either queries, invalidating all their variables, filters with their own
+   * `refetchType`, or a function returning filters for the mutation result.
+   */
+  invalidates?: MutationInvalidates<TData, TVars>
+  /**
+   * The tags of the queries to invalidate once the mutation succeeds,
+   * or a function returning them for the mutation result.
+   */
+  invalidatesTags?: QueryTag[] | ((data: TData, variables: TVars) => QueryTag[])
   retry?: RetryValue<TError>
   retryDelay?: RetryDelayValue<TError>
   networkMode?: NetworkMode
@@ -68,9 +139,21 @@ export interface MutationInfoOptions<
   meta?: QueryMeta
 }
 
-interface MutatingAction<TVars> {
+interface MutatingAction<TVars, TContext> {
   type: 'mutating'
   variables?: TVars
+  context?: TContext
+}
+
+interface QueuedAction<TVars> {
+  type: 'queued'
+  variables?: TVars
+}
+
+interface FailedAction<TError> {
+  type: 'failed'
+  failureCount: number
+  error: TError
 }
 
 interface SuccessAction<TData> {
@@ -83,31 +166,45 @@ interface ErrorAction<TError> {
   error: TError
 }
 
-export type Action<TData, TVars, TError> =
+interface CancelledAction {
+  type: 'cancelled'
+}
+
+export type Action<TData, TVars, TError, TContext> =
+  | CancelledAction
   | ErrorAction<TError>
-  | MutatingAction<TVars>
+  | FailedAction<TError>
+  | MutatingAction<TVars, TContext>
+  | QueuedAction<TVars>
   | SuccessAction<TData>
 
-export interface MutationInfo<TData = unknown, TVars = unknown, TError = Error>
-  extends ReturnType<typeof createMutationInfo<TData, TVars, TError>> {}
-
-type MutationInfoListener<TData, TVars, TError> = (
-  state: MutationInfoState<TData, TVars, TError>
+export interface MutationInfo<
+  TData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TContext = unknown
+> extends ReturnType<
+    typeof createMutationInfo<TData, TVars, TError, TContext>
+  > {}
+
+type MutationInfoListener<TData, TVars, TError, TContext> = (
+  state: MutationInfoState<TData, TVars, TError, TContext>
 ) => void
 
 export function createMutationInfo<
   TData = unknown,
   TVars = unknown,
-  TError = Error
->(config: MutationInfoConfig<TData, TVars, TError>) {
-  const { cache } = config
+  TError = Error,
+  TContext = unknown
+>(config: MutationInfoConfig<TData, TVars, TError, TContext>) {
+  const { cache, client } = config
 
-  let state = getDefaultState<TData, TVars, TError>()
+  let state = config.state || getDefaultState<TData, TVars, TError, TContext>()
 
   const [updateGcTime, scheduleGc, clearGcTimeout] = createGcManager(
     function onRemove() {
       if (!hasListeners()) {
-        if (state.status === 'mutating') {
+        if (state.status === 'mutating' || state.status === 'queued') {
           scheduleGc()
         } else {
           cache.remove(mutationInfo)
@@ -117,7 +214,7 @@ export function createMutationInfo<
   )
 
   const [listeners, subscribe, hasListeners] = createSubscribable<
-    MutationInfoListener<TData, TVars, TError>
+    MutationInfoListener<TData, TVars, TError, TContext>
   >(
     function onSubscribe() {
       // Stop the mutation from being garbage collected
@@ -128,11 +225,11 @@ export function createMutationInfo<
     }
   )
 
-  let options = {} as Mutation<TData, TVars, TError> & {
-    mutation?: Mutation<TData, TVars, TError>
+  let options = {} as Mutation<TData, TVars, TError, TContext> & {
+    mutation?: Mutation<TData, TVars, TError, TContext>
   }
   const setOptions = (
-    newOptions?: MutationInfoOptions<TData, TVars, TError>
+    newOptions?: MutationInfoOptions<TData, TVars, TError, TContext>
   ) => {
     options = {
       ...config.options.mutation,
@@ -144,9 +241,26 @@ export function createMutationInfo<
   setOptions(config.options)
   scheduleGc()
 
-  const dispatch = (action: Action<TData, TVars, TError>): void => {
-    const reducer = (): MutationInfoState<TData, TVars, TError> => {
+  const dispatch = (action: Action<TData, TVars, TError, TContext>): void => {
+    const reducer = (): MutationInfoState<TData, TVars, TError, TContext> => {
       switch (action.type) {
+        case 'failed':
+          return {
+            ...state,
+            failureCount: action.failureCount,
+            failureReason: action.error,
+          }
+        case 'queued':
+          return {
+            ...state,
+            data: UNDEFINED,
+            error: null,
+            status: 'queued',
+            variables: action.variables,
+            context: UNDEFINED,
+            failureCount: 0,
+            failureReason: null,
+          }
         case 'mutating':
           return {
             ...state,
@@ -154,6 +268,9 @@ export function createMutationInfo<
             error: null,
             status: 'mutating',
             variables: action.variables,
+            context: action.context,
+            failureCount: 0,
+            failureReason: null,
           }
         case 'success':
           return {
@@ -161,6 +278,8 @@ export function createMutationInfo<
             data: action.data,
             error: null,
             status: 'success',
+            failureCount: 0,
+            failureReason: null,
           }
         case 'error':
           return {
@@ -168,6 +287,15 @@ export function createMutationInfo<
             data: UNDEFINED,
             error: action.error,
             status: 'error',
+            failureCount: state.failureCount + 1,
+            failureReason: action.error,
+          }
+        case 'cancelled':
+          return {
+            ...state,
+            data: UNDEFINED,
+            error: null,
+            status: 'cancelled',
           }
       }
     }
@@ -183,9 +311,18 @@ export function createMutationInfo<
   }
 
   let retryer: Retryer | undefined
+  let promise: Promise<TData> | undefined
+  let isCancelled = false
+  // Rejects the promise of a mutation waiting for its scope
+  let rejectQueued: ((error: CancelledError) => void) | undefined
 
-  const trigger = async (variables: TVars): Promise<TData> => {
+  const execute = async (
+    variables: TVars,
+    restored: boolean
+  ): Promise<TData> => {
     const executeMutation = () => {
+      const abortController = new AbortController()
+
       retryer = createRetryer({
         fn: () => {
           if (process.env.NODE_ENV !== 'production') {
@@ -196,10 +333,15 @@ export function createMutationInfo<
 
           const mutationFunctionContext: MutationFunctionContext = {
             meta: options.meta,
+            signal: abortController.signal,
           }
 
           return options.fetcher(variables, mutationFunctionContext)
         },
+        abort: () => abortController.abort(),
+        onFail: (failureCount, error) => {
+          dispatch({ type: 'failed', failureCount, error })
+        },
         retry: options.retry ?? 0,
         retryDelay: options.retryDelay,
         networkMode: options.networkMode,
@@ -208,43 +350,134 @@ export function createMutationInfo<
       return retryer.promise
     }
 
-    const restored = state.status === 'mutating'
-
     try {
+      // Cancelled while it was queued
+      if (isCancelled) {
+        throw new CancelledError()
+      }
+
+      // A restored mutation already ran `onMutate`, its context was hydrated
       if (!restored) {
         dispatch({ type: 'mutating', variables })
+        await cache.config.onMutate?.(variables, mutationInfo as any)
+        const context = await options.onMutate?.(variables, mutationInfo)
+        if (context !== state.context) {
+          dispatch({ type: 'mutating', variables, context })
+        }
+      }
+
+      // Cancelled during `onMutate`
+      if (isCancelled) {
+        throw new CancelledError()
       }
+
       const data = (await executeMutation()) as TData
 
       await cache.config.onSuccess?.(data, variables, mutationInfo as any)
-      await options.onSuccess?.(data, variables, mutationInfo)
+      await options.onSuccess?.(data, variables, mutationInfo, state.context)
+      await cache.invalidateQueries(client, options, data, variables)
       await cache.config.onSettled?.(data, null, variables, mutationInfo as any)
-      await options.onSettled?.(data, null, variables, mutationInfo)
+      await options.onSettled?.(
+        data,
+        null,
+        variables,
+        mutationInfo,
+        state.context
+      )
 
       dispatch({ type: 'success', data })
       return data
     } catch (error) {
       try {
         await cache.config.onError?.(error, variables, mutationInfo as any)
-        await options.onError?.(error, variables, mutationInfo)
+        await options.onError?.(error, variables, mutationInfo, state.context)
         await cache.config.onSettled?.(
           UNDEFINED,
           error,
           variables,
           mutationInfo as any
         )
-        await options.onSettled?.(UNDEFINED, error, variables, mutationInfo)
+        await options.onSettled?.(
+          UNDEFINED,
+          error,
+          variables,
+          mutationInfo,
+          state.context
+        )
 
         throw error
       } finally {
-        dispatch({ type: 'error', error: error as TError })
+        dispatch(
+          isCancelledError(error)
+            ? { type: 'cancelled' }
+            : { type: 'error', error: error as TError }
+        )
+      }
+    }
+  }
+
+  const trigger = (variables: TVars): Promise<TData> => {
+    const restored = state.status === 'mutating'
+    const { scope } = options
+    const scopeId = isFunction(scope) ? scope(variables) : scope
+
+    isCancelled = false
+
+    promise = new Promise<TData>((resolve, reject) => {
+      rejectQueued = reject
+
+      cache
+        .runInScope(
+          scopeId,
+          () => {
+            rejectQueued = UNDEFINED
+            // Cancelled while it was queued, it already rejected
+            return isCancelled
+              ? Promise.reject(new CancelledError())
+              : execute(variables, restored)
+          },
+          () => dispatch({ type: 'queued', variables })
+        )
+        .then(resolve, reject)
+    })
+
+    return promise
+  }
+
+  // Continues a paused retryer, or re-runs a mutation that
+  // was restored in the `mutating` or `queued` state by `hydrate`.
+  // A mutation which is in flight, e.g. queued or in `onMutate`, is left as is
+  const resume = (): Promise<unknown> => {
+    if (retryer) {
+      return retryer.continue()
+    }
+    return promise ? Promise.resolve() : trigger(state.variables!)
+  }
+
+  // Stops a queued or mutating mutation, its promise rejects with a `CancelledError`.
+  // `onError` and `onSettled` still run, so optimistic updates can be rolled back
+  const cancel = (): Promise<void> => {
+    if (state.status === 'mutating' || state.status === 'queued') {
+      isCancelled = true
+      retryer?.cancel()
+
+      // Not started yet, either restored by `hydrate` or waiting for its scope,
+      // so it is cancelled right away and no longer resumed
+      if (!promise || state.status === 'queued') {
+        rejectQueued?.(new CancelledError())
+        rejectQueued = UNDEFINED
+        dispatch({ type: 'cancelled' })
       }
     }
+    return promise ? promise.then(noop).catch(noop) : Promise.resolve()
   }
 
   const mutationInfo = {
+    mutationId: config.mutationId,
     subscribe,
     trigger,
+    continue: resume,
+    cancel,
     setOptions,
     get state() {
       return state
@@ -260,15 +493,19 @@ export function createMutationInfo<
   return mutationInfo
 }
 
-export const getDefaultState = <TData, TVars, TError>(): MutationInfoState<
+export const getDefaultState = <
   TData,
   TVars,
-  TError
-> => {
+  TError,
+  TContext
+>(): MutationInfoState<TData, TVars, TError, TContext> => {
   return {
     data: UNDEFINED,
     error: null,
     status: 'idle',
     variables: UNDEFINED,
+    context: UNDEFINED,
+    failureCount: 0,
+    failureReason: null,
   }
 }
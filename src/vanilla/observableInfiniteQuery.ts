@@ -27,15 +27,16 @@ export interface ObservableInfiniteQueryOptions<
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 > extends ObservableQueryOptions<
     TFetcherData,
     TVars,
     TError,
-    InfiniteData<TFetcherData>,
+    InfiniteData<TFetcherData, TPageParam>,
     TData
   > {
-  query: InfiniteQuery<TFetcherData, TVars, TError>
+  query: InfiniteQuery<TFetcherData, TVars, TError, TPageParam>
 }
 
 export interface ObservableInfiniteQueryBaseResult<
@@ -91,13 +92,14 @@ export interface ObservableInfiniteQuery<
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 > extends Override<
     ObservableQuery<
       TFetcherData,
       TVars,
       TError,
-      InfiniteData<TFetcherData>,
+      InfiniteData<TFetcherData, TPageParam>,
       TData
     >,
     {
@@ -110,13 +112,14 @@ export interface ObservableInfiniteQuery<
           TFetcherData,
           TVars,
           TError,
-          InfiniteData<TFetcherData>
+          InfiniteData<TFetcherData, TPageParam>
         >,
         options: ObservableInfiniteQueryOptions<
           TFetcherData,
           TVars,
           TError,
-          TData
+          TData,
+          TPageParam
         >
       ) => ObservableInfiniteQueryResult<TData, TError>
 
@@ -127,7 +130,8 @@ export interface ObservableInfiniteQuery<
           TFetcherData,
           TVars,
           TError,
-          TData
+          TData,
+          TPageParam
         >
       ) => ObservableInfiniteQueryResult<TData, TError>
     }
@@ -144,18 +148,26 @@ export const createObservableInfiniteQuery = <
   TFetcherData = unknown,
   TVars = unknown,
   TError = Error,
-  TData = InfiniteData<TFetcherData>
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
 >(
   client: QueryClient,
   initialOptions: ObservableInfiniteQueryOptions<
     TFetcherData,
     TVars,
     TError,
-    TData
+    TData,
+    TPageParam
   >
-): ObservableInfiniteQuery<TFetcherData, TVars, TError, TData> => {
+): ObservableInfiniteQuery<TFetcherData, TVars, TError, TData, TPageParam> => {
   initialOptions.behavior = (
-    obsQuery: ObservableInfiniteQuery<TFetcherData, TVars, TError, TData>
+    obsQuery: ObservableInfiniteQuery<
+      TFetcherData,
+      TVars,
+      TError,
+      TData,
+      TPageParam
+    >
   ) => {
     const { fetch, createResult } = obsQuery
 
@@ -183,13 +195,14 @@ export const createObservableInfiniteQuery = <
           TFetcherData,
           TVars,
           TError,
-          InfiniteData<TFetcherData>
+          InfiniteData<TFetcherData, TPageParam>
         >,
         options: ObservableInfiniteQueryOptions<
           TFetcherData,
           TVars,
           TError,
-          TData
+          TData,
+          TPageParam
         >
       ): ObservableInfiniteQueryResult<TData, TError> => {
         const { state } = queryInfo
@@ -208,11 +221,17 @@ export const createObservableInfiniteQuery = <
           fetchNextPage,
           fetchPreviousPage,
           hasNextPage: hasNextPage(
-            options as unknown as InfiniteQueryPageParamsOptions,
+            options as unknown as InfiniteQueryPageParamsOptions<
+              TFetcherData,
+              TPageParam
+            >,
             state.data
           ),
           hasPreviousPage: hasPreviousPage(
-            options as unknown as InfiniteQueryPageParamsOptions,
+            options as unknown as InfiniteQueryPageParamsOptions<
+              TFetcherData,
+              TPageParam
+            >,
             state.data
           ),
           isFetchingNextPage,
@@ -225,5 +244,5 @@ export const createObservableInfiniteQuery = <
   return createObservableQuery(
     client,
     initialOptions
-  ) as ObservableInfiniteQuery<TFetcherData, TVars, TError, TData>
+  ) as ObservableInfiniteQuery<TFetcherData, TVars, TError, TData, TPageParam>
 }
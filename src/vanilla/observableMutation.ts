@@ -0,0 +1,245 @@
+import {
+  MutationInfo,
+  MutationInfoOptions,
+  MutationInfoState,
+  getDefaultState,
+} from './mutationInfo'
+import type { QueryClient } from './queryClient'
+import { createSubscribable } from './subscribable'
+import { UNDEFINED } from './utils'
+
+export interface ObservableMutationOptions<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> extends Omit<
+    MutationInfoOptions<TData, TVars, TError, TContext>,
+    '_defaulted'
+  > {}
+
+export interface TriggerOptions<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> extends Pick<
+    MutationInfoOptions<TData, TVars, TError, TContext>,
+    'onError' | 'onSettled' | 'onSuccess'
+  > {}
+
+export type TriggerFn<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> = (
+  variables: TVars extends void ? void | TVars : TVars,
+  mutateOptions?: TriggerOptions<TData, TVars, TError, TContext>
+) => Promise<TData>
+
+export interface ObservableMutationResult<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> {
+  data?: TData
+  error: TError | null
+  variables?: TVars
+  context?: TContext
+  failureCount: number
+  failureReason: TError | null
+  isMutating: boolean
+  isQueued: boolean
+  isCancelled: boolean
+  trigger: TriggerFn<TData, TVars, TError, TContext>
+  /**
+   * Cancels the last triggered mutation, the promise returned by `trigger`
+   * rejects with a `CancelledError`
+   */
+  cancel: () => void
+  reset: () => void
+}
+
+export interface ObservableMutation<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> extends ReturnType<
+    typeof createObservableMutation<TData, TVars, TError, TContext>
+  > {}
+
+type ObservableMutationListener<TData, TVars, TError, TContext> = (
+  result: ObservableMutationResult<TData, TVars, TError, TContext>
+) => void
+
+/**
+ * Tracks the last mutation triggered with `trigger`.
+ * Each trigger builds a new mutation,
+ * the callbacks given to `trigger` run after those of the options.
+ */
+export const createObservableMutation = <
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+>(
+  client: QueryClient,
+  initialOptions: ObservableMutationOptions<TData, TVars, TError, TContext>
+) => {
+  let options = client.defaultMutationOptions(initialOptions)
+  let currentMutationInfo:
+    | MutationInfo<TData, TVars, TError, TContext>
+    | undefined
+  let unsubscribeMutationInfo: (() => void) | undefined
+  let currentResult: ObservableMutationResult<TData, TVars, TError, TContext>
+
+  const [listeners, subscribe, hasListeners] = createSubscribable<
+    ObservableMutationListener<TData, TVars, TError, TContext>
+  >(
+    function onSubscribe() {
+      if (listeners.size === 1 && !unsubscribeMutationInfo) {
+        subscribeMutationInfo()
+      }
+    },
+    function onUnsubscribe() {
+      // Let the mutation be garbage collected
+      if (!hasListeners()) {
+        unsubscribeMutationInfo?.()
+        unsubscribeMutationInfo = UNDEFINED
+      }
+    }
+  )
+
+  const subscribeMutationInfo = () => {
+    unsubscribeMutationInfo?.()
+    unsubscribeMutationInfo = currentMutationInfo?.subscribe(() => {
+      updateResult()
+    })
+  }
+
+  const updateResult = () => {
+    const state: MutationInfoState<TData, TVars, TError, TContext> =
+      currentMutationInfo?.state ??
+      getDefaultState<TData, TVars, TError, TContext>()
+
+    currentResult = {
+      data: state.data,
+      error: state.error,
+      variables: state.variables,
+      context: state.context,
+      failureCount: state.failureCount,
+      failureReason: state.failureReason,
+      isMutating: state.status === 'mutating',
+      isQueued: state.status === 'queued',
+      isCancelled: state.status === 'cancelled',
+      trigger,
+      cancel,
+      reset,
+    }
+
+    listeners.forEach(listener => {
+      listener(currentResult)
+    })
+  }
+
+  const trigger: TriggerFn<TData, TVars, TError, TContext> = (
+    variables,
+    mutateOptions
+  ) => {
+    const mutationInfo = (currentMutationInfo = client
+      .getMutationCache()
+      .build(client, options))
+
+    // Without listeners the mutation is not subscribed,
+    // so it can be garbage collected once it settles
+    if (hasListeners()) {
+      subscribeMutationInfo()
+    } else {
+      unsubscribeMutationInfo?.()
+      unsubscribeMutationInfo = UNDEFINED
+    }
+
+    const promise = mutationInfo.trigger(variables as TVars)
+
+    // Keeps the result of `getCurrentResult` up to date
+    const updateUnsubscribedResult = () => {
+      if (!unsubscribeMutationInfo && mutationInfo === currentMutationInfo) {
+        updateResult()
+      }
+    }
+
+    updateUnsubscribedResult()
+
+    return promise.then(
+      data => {
+        updateUnsubscribedResult()
+        const { context } = mutationInfo.state
+        mutateOptions?.onSuccess?.(
+          data,
+          variables as TVars,
+          mutationInfo,
+          context
+        )
+        mutateOptions?.onSettled?.(
+          data,
+          null,
+          variables as TVars,
+          mutationInfo,
+          context
+        )
+        return data
+      },
+      error => {
+        updateUnsubscribedResult()
+        const { context } = mutationInfo.state
+        mutateOptions?.onError?.(
+          error,
+          variables as TVars,
+          mutationInfo,
+          context
+        )
+        mutateOptions?.onSettled?.(
+          UNDEFINED,
+          error,
+          variables as TVars,
+          mutationInfo,
+          context
+        )
+        throw error
+      }
+    )
+  }
+
+  const cancel = () => {
+    currentMutationInfo?.cancel()
+  }
+
+  const reset = () => {
+    unsubscribeMutationInfo?.()
+    unsubscribeMutationInfo = UNDEFINED
+    currentMutationInfo = UNDEFINED
+    updateResult()
+  }
+
+  const setOptions = (
+    newOptions: ObservableMutationOptions<TData, TVars, TError, TContext>
+  ) => {
+    options = client.defaultMutationOptions(newOptions)
+    currentMutationInfo?.setOptions(options)
+  }
+
+  updateResult()
+
+  return {
+    subscribe,
+    trigger,
+    cancel,
+    reset,
+    setOptions,
+    getCurrentResult: () => currentResult,
+    getCurrentMutationInfo: () => currentMutationInfo,
+  }
+}
@@ -139,6 +139,8 @@ export interface ObservableQueryOptions<
   throwOnError?: ThrowOnError<TFetcherData, TVars, TError, TQueryData>
   /**
    * This option can be used to transform or select a part of the data returned by the query function.
+   * It only runs again when the data or the function change, so pass a stable function for expensive selections.
+   * Its output is structurally shared like the data.
    */
   select?: (data: TQueryData) => TData
   /**
@@ -162,6 +164,14 @@ export interface ObservableQueryOptions<
 export interface ObservableQueryBaseResult<TData = unknown, TError = Error> {
   data: TData | undefined
   error: TError | null
+  /**
+   * The number of times the current fetch has failed
+   */
+  failureCount: number
+  /**
+   * The error of the last failed attempt of the current fetch
+   */
+  failureReason: TError | null
   isFetching: boolean
   isLoading: boolean
   isPlaceholderData: boolean
@@ -245,7 +255,14 @@ export const createObservableQuery = <
     | QueryInfo<TFetcherData, TVars, TError, TQueryData>
     | undefined
   let selectError: TError | null = null
-  let selectResult: TData | undefined
+  // The last data given to `select`, the function and its output
+  let selectMemo:
+    | {
+        data: TQueryData
+        select: (data: TQueryData) => TData
+        result: TData
+      }
+    | undefined
   let staleTimeoutId: ReturnType<typeof setTimeout> | undefined
   let refetchIntervalId: ReturnType<typeof setInterval> | undefined
   let currentRefetchInterval: number | false | undefined
@@ -628,7 +645,6 @@ export const createObservableQuery = <
       const prevQueryInfo = currentQueryInfo
       const prevOptions = options
       const prevResult = currentResult
-      const prevResultState = currentResultState
       const prevResultOptions = currentResultOptions
 
       const { state } = queryInfo
@@ -657,18 +673,26 @@ export const createObservableQuery = <
 
       // Select data if needed
       if (options.select && !isUndefined(state.data)) {
-        // Memoize select result
+        // Memoize select result by its input, not by the last created result
         if (
-          prevResult &&
-          state.data === prevResultState?.data &&
-          options.select === prevResultOptions?.select
+          state.data === selectMemo?.data &&
+          options.select === selectMemo.select
         ) {
-          data = selectResult
+          data = selectMemo.result
         } else {
           try {
-            data = options.select(state.data)
-            data = replaceData(prevResult?.data, data, options)
-            selectResult = data
+            // Structurally share with the last selected data,
+            // so a derived value which did not change keeps its reference
+            data = replaceData(
+              selectMemo?.result,
+              options.select(state.data),
+              options
+            )
+            selectMemo = {
+              data: state.data,
+              select: options.select,
+              result: data,
+            }
             selectError = null
           } catch (error) {
             selectError = error as TError
@@ -724,13 +748,15 @@ export const createObservableQuery = <
 
       if (selectError) {
         error = selectError as any
-        data = selectResult
+        data = selectMemo?.result
         status = 'error'
       }
 
       const result = {
         data,
         error,
+        failureCount: state.fetchFailureCount,
+        failureReason: state.fetchFailureReason,
         isLoading: status === 'pending',
         isFetching: fetchStatus === 'fetching',
         isPlaceholderData,
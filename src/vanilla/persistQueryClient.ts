@@ -0,0 +1,182 @@
+import {
+  DehydrateOptions,
+  DehydratedState,
+  HydrateOptions,
+  dehydrate,
+  hydrate,
+} from './hydration'
+import type { QueryClient } from './queryClient'
+import { throttle } from './utils'
+
+export interface PersistedClient {
+  timestamp: number
+  buster: string
+  clientState: DehydratedState
+}
+
+export interface Persister {
+  persistClient: (persistClient: PersistedClient) => Promise<void> | void
+  restoreClient: () =>
+    | Promise<PersistedClient | undefined>
+    | PersistedClient
+    | undefined
+  removeClient: () => Promise<void> | void
+}
+
+export interface PersistQueryClientRestoreOptions {
+  queryClient: QueryClient
+  persister: Persister
+  /**
+   * The max-allowed age of the cache in milliseconds.
+   * If a persisted cache is found that is older than this
+   * time, it will be discarded.
+   * Defaults to 24 hours.
+   */
+  maxAge?: number
+  /**
+   * A unique string that can be used to forcefully
+   * invalidate existing caches if they do not share the same buster string
+   */
+  buster?: string
+  hydrateOptions?: HydrateOptions
+}
+
+export interface PersistQueryClientSaveOptions {
+  queryClient: QueryClient
+  persister: Persister
+  buster?: string
+  /**
+   * The options passed to the dehydrate function,
+   * use `shouldDehydrateQuery` to choose which queries get persisted.
+   */
+  dehydrateOptions?: DehydrateOptions
+  /**
+   * The time in ms over which cache updates are batched into a single save,
+   * the cache is only dehydrated once per batch.
+   * Defaults to 0, the updates of the same tick are batched.
+   */
+  throttleTime?: number
+}
+
+export interface PersistQueryClientOptions
+  extends PersistQueryClientRestoreOptions,
+    PersistQueryClientSaveOptions {}
+
+/**
+ * Restores persisted data to the QueryCache
+ *  - data obtained from persister.restoreClient
+ *  - data is hydrated using hydrateOptions
+ * If data is expired, busted, empty, or throws, it runs persister.removeClient
+ */
+export const persistQueryClientRestore = async ({
+  queryClient,
+  persister,
+  maxAge = 1000 * 60 * 60 * 24,
+  buster = '',
+  hydrateOptions,
+}: PersistQueryClientRestoreOptions): Promise<void> => {
+  try {
+    const persistedClient = await persister.restoreClient()
+
+    if (persistedClient) {
+      if (persistedClient.timestamp) {
+        const expired = Date.now() - persistedClient.timestamp > maxAge
+        const busted = persistedClient.buster !== buster
+
+        if (expired || busted) {
+          await persister.removeClient()
+        } else {
+          hydrate(queryClient, persistedClient.clientState, hydrateOptions)
+        }
+      } else {
+        await persister.removeClient()
+      }
+    }
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.error(error)
+      console.warn(
+        'Encountered an error attempting to restore client cache from persisted location. As a precaution, the persisted cache will be discarded.'
+      )
+    }
+
+    await persister.removeClient()
+  }
+}
+
+/**
+ * Persists data from the QueryCache
+ *  - data dehydrated using dehydrateOptions
+ *  - data is persisted using persister.persistClient
+ */
+export const persistQueryClientSave = async ({
+  queryClient,
+  persister,
+  buster = '',
+  dehydrateOptions,
+}: PersistQueryClientSaveOptions): Promise<void> => {
+  const persistClient: PersistedClient = {
+    buster,
+    timestamp: Date.now(),
+    clientState: dehydrate(queryClient, dehydrateOptions),
+  }
+
+  await persister.persistClient(persistClient)
+}
+
+/**
+ * Subscribe to QueryCache and MutationCache updates (for persisting)
+ * @returns an unsubscribe function (to discontinue monitoring)
+ */
+export const persistQueryClientSubscribe = (
+  props: PersistQueryClientSaveOptions
+): (() => void) => {
+  const [save, cancelSave] = throttle(() => {
+    persistQueryClientSave(props).catch(error => {
+      if (process.env.NODE_ENV !== 'production') {
+        console.error(error)
+      }
+    })
+  }, props.throttleTime ?? 0)
+
+  const unsubscribeQueryCache = props.queryClient
+    .getQueryCache()
+    .subscribe(save)
+
+  const unsubscribeMutationCache = props.queryClient
+    .getMutationCache()
+    .subscribe(save)
+
+  return () => {
+    unsubscribeQueryCache()
+    unsubscribeMutationCache()
+    // The client may be cleared right after, which must not be saved
+    cancelSave()
+  }
+}
+
+/**
+ * Restores persisted data to QueryCache and persists further changes.
+ * Persisting only starts once the restore has finished, so the persisted
+ * cache is never overwritten by the (still empty) in-memory cache.
+ */
+export const persistQueryClient = (
+  props: PersistQueryClientOptions
+): [unsubscribe: () => void, restorePromise: Promise<void>] => {
+  let hasUnsubscribed = false
+  let unsubscribe: (() => void) | undefined
+
+  const restorePromise = persistQueryClientRestore(props).then(() => {
+    if (!hasUnsubscribed) {
+      unsubscribe = persistQueryClientSubscribe(props)
+    }
+  })
+
+  return [
+    () => {
+      hasUnsubscribed = true
+      unsubscribe?.()
+    },
+    restorePromise,
+  ]
+}
@@ -20,6 +20,10 @@ export interface PrimitiveQueryOptions<
    * Defined by the queryWithInfinite function
    */
   $inf$?: true
+  /**
+   * Defined by the subscriptionQuery function
+   */
+  $sub$?: true
 }
 
 export interface PrimitiveQuery<
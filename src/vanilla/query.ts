@@ -3,8 +3,14 @@ import {
   PrimitiveQueryOptions,
   primitiveQuery,
 } from './primitiveQuery'
+import { StreamQueryOptions, StreamSource } from './streamQueryBehavior'
 import { QueryFunction } from './typeUtils'
 
+export type {
+  StreamQueryOptions,
+  StreamRefetchMode,
+} from './streamQueryBehavior'
+
 export interface QueryOptions<
   TFetcherData = unknown,
   TVars = void,
@@ -16,13 +22,41 @@ export interface QueryOptions<
   fetcher: QueryFunction<TFetcherData, TVars>
 }
 
+export interface QueryWithStreamOptions<
+  TChunk = unknown,
+  TVars = void,
+  TError = Error,
+  TFetcherData = TChunk[]
+> extends Omit<
+      PrimitiveQueryOptions<TFetcherData, TVars, TError>,
+      '_type' | '_default' | 'fetcher'
+    >,
+    StreamQueryOptions<TChunk, TFetcherData> {
+  /**
+   * Each chunk of the returned stream updates the query data,
+   * while the query keeps fetching until the stream ends.
+   */
+  fetcher: QueryFunction<StreamSource<TChunk>, TVars>
+}
+
 export interface Query<TFetcherData = unknown, TVars = void, TError = unknown>
   extends PrimitiveQuery<TFetcherData, TVars, TError> {
   type: 'query'
 }
 
 export function query<TFetcherData = unknown, TVars = void, TError = Error>(
-  options: QueryOptions<TFetcherData, TVars, TError>
-): Query<TFetcherData, TVars, TError> {
-  return primitiveQuery(options) as Query<TFetcherData, TVars, TError>
+  options: QueryOptions<TFetcherData, TVars, TError> &
+    // Fetchers returning a stream are typed by the next overload
+    (TFetcherData extends StreamSource<any> ? never : unknown)
+): Query<TFetcherData, TVars, TError>
+export function query<
+  TChunk = unknown,
+  TVars = void,
+  TError = Error,
+  TFetcherData = TChunk[]
+>(
+  options: QueryWithStreamOptions<TChunk, TVars, TError, TFetcherData>
+): Query<TFetcherData, TVars, TError>
+export function query(options: any) {
+  return primitiveQuery(options)
 }
@@ -8,6 +8,7 @@ import {
   QueryInfoState,
   createQueryInfo,
 } from './queryInfo'
+import { isSubscriptionQuery } from './subscriptionQueryBehavior'
 import type { DeepPartial, NotifyEvent, WithRequired } from './typeUtils'
 import {
   UNDEFINED,
@@ -48,12 +49,23 @@ export type QueryCacheNotifyEvent<TFetcherData, TVars, TError, TQueryData> =
   | NotifyEventQueryRemoved<TFetcherData, TVars, TError, TQueryData>
   | NotifyEventQueryUpdated<TFetcherData, TVars, TError, TQueryData>
 
+/**
+ * Describes the data of a query, e.g. `'Order'` or `{ type: 'Order', id: 42 }`.
+ * A tag without id matches every tag of the same type.
+ */
+export type QueryTag = string | { type: string; id?: string | number }
+
 export interface QueryStore {
   has: (queryKey: string) => boolean
   set: (queryKey: string, queryInfo: QueryInfo<any, any, any>) => void
   get: (queryKey: string) => QueryInfo<any, any, any> | undefined
   delete: (queryKey: string) => void
   values: () => IterableIterator<QueryInfo<any, any, any>>
+  /**
+   * Returns the queries to remove from the cache when the store is over its bounds,
+   * called after a query is added, after a fetch settles and once a query loses its observers
+   */
+  getEvicted?: () => Array<QueryInfo<any, any, any>>
 }
 
 type QueryCacheListeners<TFetcherData, TVars, TError, TQueryData> = (
@@ -74,6 +86,80 @@ export const createQueryCache = (
 
   const listeners = new Set<QueryCacheListeners<any, any, any, any>>()
 
+  // Queries indexed by the tags of their latest data, by type then by id
+  const tagIndex = new Map<
+    string,
+    Map<string | number | undefined, Set<QueryInfo<any, any, any, any>>>
+  >()
+  const queryTags = new Map<QueryInfo<any, any, any, any>, QueryTag[]>()
+
+  const setTags = (
+    queryInfo: QueryInfo<any, any, any, any>,
+    tags: QueryTag[]
+  ) => {
+    queryTags.get(queryInfo)?.forEach(tag => {
+      const { type, id } = normalizeTag(tag)
+      const ids = tagIndex.get(type)
+      const queries = ids?.get(id)
+
+      queries?.delete(queryInfo)
+      if (queries && !queries.size) ids!.delete(id)
+      if (ids && !ids.size) tagIndex.delete(type)
+    })
+
+    tags.forEach(tag => {
+      const { type, id } = normalizeTag(tag)
+      let ids = tagIndex.get(type)
+      if (!ids) tagIndex.set(type, (ids = new Map()))
+      let queries = ids.get(id)
+      if (!queries) ids.set(id, (queries = new Set()))
+
+      queries.add(queryInfo)
+    })
+
+    if (tags.length) {
+      queryTags.set(queryInfo, tags)
+    } else {
+      queryTags.delete(queryInfo)
+    }
+  }
+
+  const updateTags = (queryInfo: QueryInfo<any, any, any, any>) => {
+    const { tags } = queryInfo.options
+    const { data } = queryInfo.state
+
+    setTags(
+      queryInfo,
+      tags && !isUndefined(data) ? tags(data, queryInfo.variables) : []
+    )
+  }
+
+  const isTagged = (
+    tags: QueryTag[],
+    queryInfo: QueryInfo<any, any, any, any>
+  ): boolean => {
+    return tags.some(tag => {
+      const { type, id } = normalizeTag(tag)
+      const ids = tagIndex.get(type)
+
+      if (isUndefined(id)) {
+        return !!ids && Array.from(ids.values()).some(x => x.has(queryInfo))
+      }
+
+      return !!ids?.get(id)?.has(queryInfo)
+    })
+  }
+
+  const match = (
+    filters: QueryInfoFilters<any, any, any, any>,
+    queryInfo: QueryInfo<any, any, any, any>
+  ): boolean => {
+    return (
+      (!filters.tags || isTagged(filters.tags, queryInfo)) &&
+      matchQueryInfo(filters, queryInfo)
+    )
+  }
+
   function subscribe<
     TFetcherData = unknown,
     TVars = unknown,
@@ -97,7 +183,7 @@ export const createQueryCache = (
     const wrappedListener = (
       event: QueryCacheNotifyEvent<any, any, any, any>
     ) => {
-      if (!filters || matchQueryInfo(filters, event.queryInfo)) {
+      if (!filters || match(filters, event.queryInfo)) {
         listener(event)
       }
     }
@@ -120,9 +206,7 @@ export const createQueryCache = (
     >
   ): QueryInfo<TFetcherData, TVars, TError, TQueryData> | undefined => {
     const defaultedFilters = { exact: true, ...filters }
-    return getAll().find(queryInfo =>
-      matchQueryInfo(defaultedFilters, queryInfo)
-    )
+    return getAll().find(queryInfo => match(defaultedFilters, queryInfo))
   }
 
   const findAll = <
@@ -134,7 +218,7 @@ export const createQueryCache = (
     filters: QueryInfoFilters<TFetcherData, TVars, TError, TQueryData> = {}
   ): QueryInfo<TFetcherData, TVars, TError, TQueryData>[] => {
     return Object.keys(filters).length
-      ? getAll().filter(queryInfo => matchQueryInfo(filters, queryInfo))
+      ? getAll().filter(queryInfo => match(filters, queryInfo))
       : getAll()
   }
 
@@ -147,7 +231,53 @@ export const createQueryCache = (
     event: QueryCacheNotifyEvent<TFetcherData, TVars, TError, TQueryData>
   ) => {
     lastUpdated = Date.now()
+
+    if (event.type === 'removed') {
+      setTags(event.queryInfo, [])
+    } else if (
+      event.type === 'added' ||
+      event.action.type === 'success' ||
+      event.action.type === 'setState'
+    ) {
+      updateTags(event.queryInfo)
+    }
+
     listeners.forEach(listener => listener(event))
+
+    // A settled fetch changes the size of the query and makes it evictable
+    if (
+      event.type === 'added' ||
+      (event.type === 'updated' &&
+        (event.action.type === 'success' || event.action.type === 'error') &&
+        !isReceiving(event.queryInfo))
+    ) {
+      evict()
+    }
+  }
+
+  // Streams and subscriptions update their data with every chunk or value,
+  // they are measured once the stream ends or the source is closed
+  const isReceiving = (queryInfo: QueryInfo<any, any, any, any>): boolean =>
+    queryInfo.state.fetchStatus !== 'idle' ||
+    (isSubscriptionQuery(queryInfo.query) && !!queryInfo.getObserversCount())
+
+  const evict = () => {
+    queries.getEvicted?.().forEach(queryInfo => remove(queryInfo))
+  }
+
+  let evictTimeout: ReturnType<typeof setTimeout> | undefined
+
+  /**
+   * Evicts the queries the store is over its bounds with, once a query loses its observers.
+   * Deferred, so that an observer subscribing again right away keeps its query.
+   */
+  const scheduleEviction = (): void => {
+    if (queries.getEvicted && !evictTimeout) {
+      evictTimeout = setTimeout(() => {
+        evictTimeout = UNDEFINED
+        evict()
+      })
+    }
   }
 
   const remove = (queryInfo: QueryInfo<any, any, any, any>) => {
@@ -236,6 +366,7 @@ export const createQueryCache = (
     onOnline,
     subscribe,
     notify,
+    scheduleEviction,
     clear,
     config,
     get lastUpdated() {
@@ -272,8 +403,15 @@ export interface QueryInfoFilters<
   variables?: DeepPartial<TVars>
   fetchStatus?: FetchStatus
   stale?: boolean
+  /**
+   * Include queries whose latest data carried one of these tags
+   */
+  tags?: QueryTag[]
 }
 
+const normalizeTag = (tag: QueryTag): { type: string; id?: string | number } =>
+  typeof tag === 'string' ? { type: tag } : tag
+
 const matchQueryInfo = (
   filters: QueryInfoFilters<any, any, any, any>,
   queryInfo: QueryInfo<any, any, any, any>
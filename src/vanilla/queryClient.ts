@@ -1,4 +1,6 @@
+import { EntityId, EntityStore, createEntityStore } from './entityStore'
 import { focusManager } from './focusManager'
+import { Mutation } from './mutation'
 import {
   MutationCache,
   MutationInfoFilters,
@@ -29,15 +31,18 @@ import {
   QueryInfoState,
   SetDataOptions,
 } from './queryInfo'
+import { InfiniteQuery } from './queryWithInfinite'
 import { DeepPartial, GetVariablesOption, Updater } from './typeUtils'
 import { InfiniteData } from './types'
 import {
   UNDEFINED,
   functionalUpdate,
   getFullKey,
+  hashKey,
   hashKeyByOptions,
   isUndefined,
   noop,
+  partialMatchKey,
 } from './utils'
 
 export interface ResultOptions {
@@ -79,22 +84,75 @@ export type FetchQueryOptions<
     staleTime?: number
   }
 
+export type FetchInfiniteQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TPageParam = unknown
+> = FetchQueryOptions<
+  TFetcherData,
+  TVars,
+  TError,
+  InfiniteData<TFetcherData, TPageParam>
+> & {
+  query: InfiniteQuery<TFetcherData, TVars, TError, TPageParam>
+  /**
+   * The number of pages to fetch, starting from `initialPageParam`.
+   * Defaults to the number of pages already in the cache, or 1.
+   */
+  pages?: number
+  /**
+   * Overrides the `initialPageParam` of the query.
+   */
+  initialPageParam?: TPageParam
+}
+
 export type TriggerMutationOptions<
   TData = unknown,
   TVars = unknown,
-  TError = Error
-> = Omit<MutationInfoOptions<TData, TVars, TError>, '_defaulted'> &
+  TError = Error,
+  TContext = unknown
+> = Omit<MutationInfoOptions<TData, TVars, TError, TContext>, '_defaulted'> &
   GetVariablesOption<TVars>
 
 export interface DefaultOptions {
   queries?: Omit<ObservableQueryOptions<any, any, any>, 'query' | '_defaulted'>
-  mutations?: Omit<MutationInfoOptions<any, any>, 'mutation' | '_defaulted'>
+  mutations?: Omit<
+    MutationInfoOptions<any, any, any, any>,
+    'mutation' | '_defaulted'
+  >
+}
+
+export type QueryDefaults<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TQueryData = TFetcherData
+> = Omit<
+  ObservableQueryOptions<TFetcherData, TVars, TError, TQueryData>,
+  'query' | 'variables' | '_defaulted'
+>
+
+export type MutationDefaults<
+  TData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TContext = unknown
+> = Omit<
+  MutationInfoOptions<TData, TVars, TError, TContext>,
+  'mutation' | '_defaulted'
+>
+
+interface DefaultsEntry<TOptions> {
+  fullKey: [string, any]
+  defaultOptions: TOptions
 }
 
 export interface QueryClientConfig {
   defaultOptions?: DefaultOptions
   queryCache?: QueryCache
   mutationCache?: MutationCache
+  entityStore?: EntityStore
 }
 
 export interface QueryClient extends ReturnType<typeof createQueryClient> {}
@@ -103,12 +161,15 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
   let mountCount = 0
   let unsubscribeFocus: (() => void) | undefined
   let unsubscribeOnline: (() => void) | undefined
+  let disconnectEntityStore: (() => void) | undefined
   let defaultOptions = config.defaultOptions
 
   const mount = (): void => {
     mountCount++
     if (mountCount !== 1) return
 
+    connectEntityStore()
+
     unsubscribeFocus = focusManager.subscribe(() => {
       if (focusManager.isFocused()) {
         queryCache.onFocus()
@@ -116,6 +177,7 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     })
     unsubscribeOnline = onlineManager.subscribe(() => {
       if (onlineManager.isOnline()) {
+        resumePausedMutations()
         queryCache.onOnline()
       }
     })
@@ -130,22 +192,135 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
 
     unsubscribeOnline?.()
     unsubscribeOnline = UNDEFINED
+
+    disconnectEntityStore?.()
+    disconnectEntityStore = UNDEFINED
   }
 
   const queryCache = config.queryCache ?? createQueryCache()
 
   const mutationCache = config.mutationCache ?? createMutationCache()
 
+  const entityStore = config.entityStore ?? createEntityStore()
+
+  const connectEntityStore = () => {
+    if (!disconnectEntityStore) {
+      disconnectEntityStore = entityStore.connect(queryCache)
+    }
+  }
+
+  // Connected from the start, so that clients which are never mounted,
+  // e.g. on the server, keep the entities in sync too
+  connectEntityStore()
+
   const getQueryCache = () => queryCache
 
   const getMutationCache = () => mutationCache
 
+  const getEntityStore = () => entityStore
+
   const getDefaultOptions = () => defaultOptions
 
   const setDefaultOptions = (options: DefaultOptions): void => {
     defaultOptions = options
   }
 
+  const queryDefaults: DefaultsEntry<QueryDefaults<any, any, any, any>>[] = []
+
+  const mutationDefaults: DefaultsEntry<
+    MutationDefaults<any, any, any, any>
+  >[] = []
+
+  const setDefaults = <TOptions>(
+    entries: DefaultsEntry<TOptions>[],
+    fullKey: [string, any],
+    options: TOptions
+  ) => {
+    const hash = hashKey(fullKey)
+    const entry = entries.find(x => hashKey(x.fullKey) === hash)
+
+    if (entry) {
+      entry.defaultOptions = options
+    } else {
+      entries.push({ fullKey, defaultOptions: options })
+    }
+  }
+
+  // Later registrations win when several entries match the same key
+  const getDefaults = <TOptions>(
+    entries: DefaultsEntry<TOptions>[],
+    fullKey: [string, any]
+  ): TOptions => {
+    return entries
+      .filter(entry => partialMatchKey(fullKey, entry.fullKey))
+      .reduce(
+        (result, entry) => ({ ...result, ...entry.defaultOptions }),
+        {} as TOptions
+      )
+  }
+
+  /**
+   * Registers default options for every usage of a query,
+   * or only for the usages whose variables partially match `variables`.
+   * They take precedence over the options of the query definition
+   * and `defaultOptions.queries`, but not over the options of a single call.
+   */
+  const setQueryDefaults = <
+    TFetcherData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TQueryData = TFetcherData
+  >(
+    query: PrimitiveQuery<TFetcherData, TVars, TError, TQueryData>,
+    options: QueryDefaults<TFetcherData, TVars, TError, TQueryData>,
+    variables?: DeepPartial<TVars>
+  ): void => {
+    setDefaults(queryDefaults, getFullKey(query.key, variables), options)
+  }
+
+  /**
+   * The defaults registered for the query and the given variables
+   */
+  const getQueryDefaults = <
+    TFetcherData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TQueryData = TFetcherData
+  >(
+    query: PrimitiveQuery<TFetcherData, TVars, TError, TQueryData>,
+    variables?: TVars
+  ): QueryDefaults<TFetcherData, TVars, TError, TQueryData> => {
+    return getDefaults(queryDefaults, getFullKey(query.key, variables))
+  }
+
+  /**
+   * Registers default options for every usage of a mutation.
+   * They take precedence over the options of the mutation definition
+   * and `defaultOptions.mutations`, but not over the options of a single call.
+   */
+  const setMutationDefaults = <
+    TData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TContext = unknown
+  >(
+    mutation: Mutation<TData, TVars, TError, TContext>,
+    options: MutationDefaults<TData, TVars, TError, TContext>
+  ): void => {
+    setDefaults(mutationDefaults, getFullKey(mutation.key), options)
+  }
+
+  const getMutationDefaults = <
+    TData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TContext = unknown
+  >(
+    mutation: Mutation<TData, TVars, TError, TContext>
+  ): MutationDefaults<TData, TVars, TError, TContext> => {
+    return getDefaults(mutationDefaults, getFullKey(mutation.key))
+  }
+
   const fetchQuery = <
     TFetcherData = unknown,
     TVars = unknown,
@@ -178,6 +353,29 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     return fetchQuery(options).then(noop).catch(noop)
   }
 
+  const fetchInfiniteQuery = <
+    TFetcherData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TPageParam = unknown
+  >(
+    options: FetchInfiniteQueryOptions<TFetcherData, TVars, TError, TPageParam>
+  ): Promise<InfiniteData<TFetcherData, TPageParam>> => {
+    // `queryInfo.fetch` hands `pages` to the infinite query behavior
+    return fetchQuery(options)
+  }
+
+  const prefetchInfiniteQuery = <
+    TFetcherData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TPageParam = unknown
+  >(
+    options: FetchInfiniteQueryOptions<TFetcherData, TVars, TError, TPageParam>
+  ) => {
+    return fetchInfiniteQuery(options).then(noop).catch(noop)
+  }
+
   const refetchQueries = <
     TFetcherData = unknown,
     TVars = unknown,
@@ -262,6 +460,21 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
       : queryCache.build(client, defaultedOptions).setData(data, setDataOptions)
   }
 
+  const getEntity = <TEntity = unknown>(
+    type: string,
+    id: EntityId
+  ): TEntity | undefined => {
+    return entityStore.get<TEntity>(type, id)
+  }
+
+  const setEntity = <TEntity = unknown>(
+    type: string,
+    id: EntityId,
+    updater: Updater<TEntity | undefined, TEntity | undefined>
+  ): TEntity | undefined => {
+    return entityStore.set(type, id, updater)
+  }
+
   const getQueriesData = <
     TFetcherData = unknown,
     TVars = unknown,
@@ -409,6 +622,7 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     const defaultedOptions = {
       ...defaultOptions?.queries,
       ...options?.query,
+      ...(options?.query && getQueryDefaults(options.query, options.variables)),
       ...options,
       _defaulted: true,
     } as ObservableQueryOptions<TFetcherData, TVars, TError, TQueryData, TData>
@@ -432,7 +646,9 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     return defaultedOptions
   }
 
-  const defaultMutationOptions = <T extends MutationInfoOptions<any, any, any>>(
+  const defaultMutationOptions = <
+    T extends MutationInfoOptions<any, any, any, any>
+  >(
     options?: T
   ): T => {
     if (options?._defaulted) {
@@ -442,6 +658,7 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     return {
       ...defaultOptions?.mutations,
       ...options?.mutation,
+      ...(options?.mutation && getMutationDefaults(options.mutation)),
       ...options,
       _defaulted: true,
     } as T
@@ -459,8 +676,27 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     return cachedData ? Promise.resolve(cachedData) : fetchQuery(options)
   }
 
-  const triggerMutation = <TData = unknown, TVars = unknown, TError = Error>(
-    options: TriggerMutationOptions<TData, TVars, TError>
+  const ensureInfiniteQueryData = <
+    TFetcherData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TPageParam = unknown
+  >(
+    options: FetchInfiniteQueryOptions<TFetcherData, TVars, TError, TPageParam>
+  ): Promise<InfiniteData<TFetcherData, TPageParam>> => {
+    const cachedData = getQueryData(options)
+    return cachedData
+      ? Promise.resolve(cachedData)
+      : fetchInfiniteQuery(options)
+  }
+
+  const triggerMutation = <
+    TData = unknown,
+    TVars = unknown,
+    TError = Error,
+    TContext = unknown
+  >(
+    options: TriggerMutationOptions<TData, TVars, TError, TContext>
   ) => {
     return mutationCache.build(client, options).trigger(options.variables!)
   }
@@ -471,6 +707,23 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     return mutationCache.findAll({ ...filters, status: 'mutating' }).length
   }
 
+  const cancelMutations = <TData = unknown, TVars = unknown, TError = Error>(
+    filters?: MutationInfoFilters<TData, TVars, TError>
+  ): Promise<void> => {
+    const promises = mutationCache
+      .findAll(filters)
+      .map(mutationInfo => mutationInfo.cancel())
+
+    return Promise.all(promises).then(noop)
+  }
+
+  const resumePausedMutations = (): Promise<unknown> => {
+    if (onlineManager.isOnline()) {
+      return mutationCache.resumePausedMutations()
+    }
+    return Promise.resolve()
+  }
+
   const isFetching = (filters?: QueryInfoFilters): number => {
     return queryCache.findAll({ ...filters, fetchStatus: 'fetching' }).length
   }
@@ -484,10 +737,17 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     TFetcherData = unknown,
     TVars = unknown,
     TError = Error,
-    TData = InfiniteData<TFetcherData>
+    TData = InfiniteData<TFetcherData>,
+    TPageParam = unknown
   >(
-    options: ObservableInfiniteQueryOptions<TFetcherData, TVars, TError, TData>
-  ): ObservableInfiniteQuery<TFetcherData, TVars, TError, TData>
+    options: ObservableInfiniteQueryOptions<
+      TFetcherData,
+      TVars,
+      TError,
+      TData,
+      TPageParam
+    >
+  ): ObservableInfiniteQuery<TFetcherData, TVars, TError, TData, TPageParam>
   function watchQuery<
     TFetcherData = unknown,
     TVars = unknown,
@@ -515,9 +775,16 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     defaultMutationOptions,
     getDefaultOptions,
     setDefaultOptions,
+    setQueryDefaults,
+    getQueryDefaults,
+    setMutationDefaults,
+    getMutationDefaults,
     getQueryCache,
+    getEntityStore,
     fetchQuery,
     prefetchQuery,
+    fetchInfiniteQuery,
+    prefetchInfiniteQuery,
     refetchQueries,
     invalidateQueries,
     resetQueries,
@@ -528,8 +795,13 @@ export const createQueryClient = (config: QueryClientConfig = {}) => {
     getQueryState,
     getQueryData,
     getQueriesData,
+    getEntity,
+    setEntity,
     ensureQueryData,
+    ensureInfiniteQueryData,
     triggerMutation,
+    resumePausedMutations,
+    cancelMutations,
     isMutating,
     isFetching,
     watchQuery,
@@ -1,8 +1,9 @@
+import type { EntitySchema } from './entityStore'
 import { createGcManager } from './gcManager'
 import { createInfiniteQueryBehavior } from './infiniteQueryBehavior'
 import { ObservableQuery } from './observableQuery'
 import { PrimitiveQuery, isInfiniteQuery } from './primitiveQuery'
-import { QueryCache } from './queryCache'
+import { QueryCache, QueryTag } from './queryCache'
 import {
   CancelOptions,
   NetworkMode,
@@ -13,7 +14,12 @@ import {
   createRetryer,
   isCancelledError,
 } from './retryer'
+import { createStreamQueryBehavior } from './streamQueryBehavior'
 import { createSubscribable } from './subscribable'
+import {
+  createSubscriptionQueryBehavior,
+  isSubscriptionQuery,
+} from './subscriptionQueryBehavior'
 import {
   FetchMeta,
   QueryFunctionContext,
@@ -25,11 +31,13 @@ import {
   findSet,
   functionalUpdate,
   isFunction,
+  isGeneratedKey,
   isServer,
   isUndefined,
   noop,
   replaceData,
   timeUntilStale,
+  warnGeneratedKey,
 } from './utils'
 
 export type QueryStatus = 'pending' | 'error' | 'success'
@@ -80,6 +88,16 @@ export interface QueryInfoOptions<
   structuralSharing?:
     | boolean
     | ((oldData: TQueryData | undefined, newData: TQueryData) => TQueryData)
+  /**
+   * The tags carried by the data of the query,
+   * used to invalidate queries with `invalidateQueries({ tags })`.
+   */
+  tags?: (data: TQueryData, variables: TVars) => QueryTag[]
+  /**
+   * The entities found in the data of the query,
+   * kept in sync with the other queries holding them by the entity store.
+   */
+  entities?: EntitySchema
   _defaulted?: boolean
   /**
    * Additional payload to be stored on each query.
@@ -131,6 +149,15 @@ export interface QueryInfoState<TQueryData, TError> {
   dataUpdatedAt: number
   error: TError | null
   errorUpdatedAt: number
+  /**
+   * The number of times the current fetch has failed,
+   * reset to 0 when the next fetch starts
+   */
+  fetchFailureCount: number
+  /**
+   * The last error of the current fetch, also set while a retry is pending
+   */
+  fetchFailureReason: TError | null
   fetchMeta: FetchMeta | null
   isInvalidated: boolean
   status: QueryStatus
@@ -140,6 +167,11 @@ export interface QueryInfoState<TQueryData, TError> {
 export interface FetchOptions {
   cancelRefetch?: boolean
   meta?: FetchMeta
+  /**
+   * A fetch already in flight elsewhere, e.g. on the server,
+   * awaited instead of the first call to the fetcher
+   */
+  initialPromise?: Promise<unknown>
 }
 
 interface FetchAction {
@@ -159,6 +191,12 @@ interface ErrorAction {
   error: unknown
 }
 
+interface FailedAction<TError> {
+  type: 'failed'
+  failureCount: number
+  error: TError
+}
+
 interface InvalidateAction {
   type: 'invalidate'
 }
@@ -184,6 +222,7 @@ export interface SetStateOptions {
 export type Action<TQueryData, TError> =
   | ContinueAction
   | ErrorAction
+  | FailedAction<TError>
   | FetchAction
   | InvalidateAction
   | PauseAction
@@ -250,14 +289,35 @@ export function createQueryInfo<
 
   let retryer: Retryer<TQueryData> | undefined
 
+  // Closes the connection to the push source of a subscription query
+  let teardown: (() => void) | undefined
+
+  const setTeardown = (newTeardown?: () => void) => {
+    teardown?.()
+    teardown = newTeardown
+  }
+
   const [listeners, subscribe, hasListeners] = createSubscribable<
     ObservableQuery<TFetcherData, TVars, TError, TQueryData, any>
   >(
     function onSubscribe() {
       clearGcTimeout()
+
+      // Data which is no longer pushed is stale,
+      // so the first observer connects to the source again
+      if (
+        isSubscriptionQuery(options.query) &&
+        !teardown &&
+        state.dataUpdatedAt &&
+        state.fetchStatus === 'idle'
+      ) {
+        invalidate()
+      }
     },
     function onUnsubscribe() {
       if (!hasListeners()) {
+        setTeardown()
+
         // If the transport layer does not support cancellation
         // we'll let the query continue so the result can be cached
         if (retryer) {
@@ -269,6 +329,7 @@ export function createQueryInfo<
         }
 
         scheduleGc()
+        cache.scheduleEviction()
       }
     }
   )
@@ -327,11 +388,10 @@ export function createQueryInfo<
     // Create fetch function
     const fetchFn = () => {
       if (process.env.NODE_ENV !== 'production') {
-        if (isServer && !config.query.key) {
-          return Promise.reject(
-            new Error(
-              `Missing key: If making a request on the server-side, please ensure that the 'key' option has been passed.`
-            )
+        if (isServer && isGeneratedKey(config.query.key)) {
+          warnGeneratedKey(
+            config.query.key,
+            'A query is fetched on the server.'
           )
         }
       }
@@ -366,6 +426,25 @@ export function createQueryInfo<
       createInfiniteQueryBehavior(newOptions?.pages).onFetch(
         context as FetchContext<any, any, any, any>
       )
+    } else if (isSubscriptionQuery(options.query)) {
+      createSubscriptionQueryBehavior<TFetcherData, TVars, TError, TQueryData>({
+        onData: data => setData(data, { manual: true }),
+        onError: error => {
+          dispatch({ type: 'error', error })
+          // Connect again on the next mount, focus or reconnect
+          invalidate()
+        },
+        setTeardown,
+      }).onFetch(
+        context as FetchContext<TFetcherData, TVars, TError, TQueryData>
+      )
+    } else {
+      createStreamQueryBehavior<TFetcherData, TVars, TError, TQueryData>({
+        onChunk: data => setData(data, { manual: true }),
+        setState,
+      }).onFetch(
+        context as FetchContext<TFetcherData, TVars, TError, TQueryData>
+      )
     }
 
     // Store state in case the current fetch needs to be reverted
@@ -408,9 +487,13 @@ export function createQueryInfo<
       setIsFetchingOptimistic(false)
     }
 
+    const initialPromise = fetchOptions?.initialPromise
+
     // Try to fetch the data
     retryer = createRetryer({
-      fn: context.fetchFn as () => Promise<TQueryData>,
+      fn: (initialPromise
+        ? () => initialPromise
+        : context.fetchFn) as () => Promise<TQueryData>,
       abort: abortController?.abort.bind(abortController),
       onSuccess: data => {
         if (isUndefined(data)) {
@@ -440,13 +523,17 @@ export function createQueryInfo<
         setIsFetchingOptimistic(false)
       },
       onError,
+      onFail: (failureCount, error) => {
+        dispatch({ type: 'failed', failureCount, error })
+      },
       onPause: () => {
         dispatch({ type: 'pause' })
       },
       onContinue: () => {
         dispatch({ type: 'continue' })
       },
-      retry: context.options.retry,
+      // The fetch in flight elsewhere was retried already
+      retry: initialPromise ? false : context.options.retry,
       retryDelay: context.options.retryDelay,
       networkMode: context.options.networkMode,
     })
@@ -464,6 +551,7 @@ export function createQueryInfo<
   const destroy = () => {
     clearGcTimeout()
     cancel({ silent: true })
+    setTeardown()
   }
 
   const reset = () => {
@@ -498,6 +586,12 @@ export function createQueryInfo<
   const dispatch = (action: Action<TQueryData, TError>): void => {
     const reducer = (): QueryInfoState<TQueryData, TError> => {
       switch (action.type) {
+        case 'failed':
+          return {
+            ...state,
+            fetchFailureCount: action.failureCount,
+            fetchFailureReason: action.error,
+          }
         case 'pause':
           return {
             ...state,
@@ -511,6 +605,8 @@ export function createQueryInfo<
         case 'fetch':
           return {
             ...state,
+            fetchFailureCount: 0,
+            fetchFailureReason: null,
             fetchMeta: action.meta ?? null,
             fetchStatus: canFetch(options.networkMode) ? 'fetching' : 'paused',
             ...(!state.dataUpdatedAt && {
@@ -528,6 +624,8 @@ export function createQueryInfo<
             status: 'success',
             ...(!action.manual && {
               fetchStatus: 'idle',
+              fetchFailureCount: 0,
+              fetchFailureReason: null,
             }),
           }
         case 'error': {
@@ -541,6 +639,8 @@ export function createQueryInfo<
             ...state,
             error,
             errorUpdatedAt: Date.now(),
+            fetchFailureCount: state.fetchFailureCount + 1,
+            fetchFailureReason: error,
             fetchStatus: 'idle',
             status: 'error',
           }
@@ -639,6 +739,12 @@ export function createQueryInfo<
     get state() {
       return state
     },
+    /**
+     * The promise of the last fetch
+     */
+    get promise() {
+      return promise
+    },
     get query() {
       return options.query
     },
@@ -667,6 +773,8 @@ const getDefaultState = <TFetcherData, TVars, TError, TQueryData>(
     dataUpdatedAt: hasData ? initialDataUpdatedAt ?? Date.now() : 0,
     error: null,
     errorUpdatedAt: 0,
+    fetchFailureCount: 0,
+    fetchFailureReason: null,
     fetchMeta: null,
     isInvalidated: false,
     status: hasData ? 'success' : 'pending',
@@ -10,29 +10,31 @@ import { InfiniteData } from './types'
 export interface QueryWithInfiniteOptions<
   TFetcherData = unknown,
   TVars = void,
-  TError = Error
+  TError = Error,
+  TPageParam = unknown
 > extends Omit<
       PrimitiveQueryOptions<
         TFetcherData,
         TVars,
         TError,
-        InfiniteData<TFetcherData>
+        InfiniteData<TFetcherData, TPageParam>
       >,
       '_default'
     >,
-    InfiniteQueryPageParamsOptions<TFetcherData> {
-  fetcher: QueryFunction<TFetcherData, TVars, number>
+    InfiniteQueryPageParamsOptions<TFetcherData, TPageParam> {
+  fetcher: QueryFunction<TFetcherData, TVars, TPageParam>
 }
 
 export interface InfiniteQuery<
   TFetcherData = unknown,
   TVars = void,
-  TError = Error
+  TError = Error,
+  TPageParam = unknown
 > extends PrimitiveQuery<
     TFetcherData,
     TVars,
     TError,
-    InfiniteData<TFetcherData>
+    InfiniteData<TFetcherData, TPageParam>
   > {
   $inf$: true
 }
@@ -40,12 +42,13 @@ export interface InfiniteQuery<
 export const queryWithInfinite = <
   TFetcherData = unknown,
   TVars = void,
-  TError = Error
+  TError = Error,
+  TPageParam = unknown
 >(
-  options: QueryWithInfiniteOptions<TFetcherData, TVars, TError>
-): InfiniteQuery<TFetcherData, TVars, TError> => {
+  options: QueryWithInfiniteOptions<TFetcherData, TVars, TError, TPageParam>
+): InfiniteQuery<TFetcherData, TVars, TError, TPageParam> => {
   return primitiveQuery({
     ...options,
     $inf$: true,
-  }) as InfiniteQuery<TFetcherData, TVars, TError>
+  }) as InfiniteQuery<TFetcherData, TVars, TError, TPageParam>
 }
@@ -16,6 +16,7 @@ interface RetryerConfig<TData = unknown, TError = Error> {
   abort?: () => void
   onError?: (error: TError) => void
   onSuccess?: (data: TData) => void
+  onFail?: (failureCount: number, error: TError) => void
   onPause?: () => void
   onContinue?: () => void
   retry?: RetryValue<TError>
@@ -181,6 +182,8 @@ export const createRetryer = <TData = unknown, TError = Error>(
 
         failureCount++
 
+        config.onFail?.(failureCount, error)
+
         // Delay
         sleep(delay)
           // Pause if the document is not visible or when the device is offline
@@ -0,0 +1,84 @@
+import type { PersistedClient, Persister } from './persistQueryClient'
+import { UNDEFINED, throttle } from './utils'
+
+/**
+ * Both synchronous storages (`localStorage`, `sessionStorage`) and
+ * asynchronous ones (IndexedDB wrappers, React Native's AsyncStorage) fit.
+ */
+export interface PersistStorage {
+  getItem: (key: string) => string | null | Promise<string | null>
+  setItem: (key: string, value: string) => unknown
+  removeItem: (key: string) => unknown
+}
+
+export interface CreateStoragePersisterOptions {
+  /**
+   * The storage client used for setting and retrieving items from cache.
+   * For SSR pass in `undefined`, the persister will then be a no-op.
+   */
+  storage: PersistStorage | undefined | null
+  /**
+   * The key to use when storing the cache
+   * Defaults to `QUAERE_OFFLINE_CACHE`.
+   */
+  key?: string
+  /**
+   * To avoid spamming, pass a time in ms to throttle saving the cache to disk.
+   * Defaults to 1000.
+   */
+  throttleTime?: number
+  /**
+   * How to serialize the data to storage.
+   * Defaults to `JSON.stringify`.
+   */
+  serialize?: (client: PersistedClient) => string
+  /**
+   * How to deserialize the data from storage.
+   * Defaults to `JSON.parse`.
+   */
+  deserialize?: (cachedString: string) => PersistedClient
+}
+
+export const createStoragePersister = ({
+  storage,
+  key = 'QUAERE_OFFLINE_CACHE',
+  throttleTime = 1000,
+  serialize = JSON.stringify,
+  deserialize = JSON.parse,
+}: CreateStoragePersisterOptions): Persister => {
+  if (!storage) {
+    return {
+      persistClient: () => {},
+      restoreClient: () => UNDEFINED,
+      removeClient: () => {},
+    }
+  }
+
+  const persistClient = async (persistedClient: PersistedClient) => {
+    try {
+      await storage.setItem(key, serialize(persistedClient))
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.error(error)
+      }
+    }
+  }
+
+  const [throttledPersistClient] = throttle(persistClient, throttleTime)
+
+  return {
+    persistClient: throttledPersistClient,
+    restoreClient: async () => {
+      const cacheString = await storage.getItem(key)
+
+      if (!cacheString) {
+        return
+      }
+
+      return deserialize(cacheString)
+    },
+    removeClient: async () => {
+      await storage.removeItem(key)
+    },
+  }
+}
@@ -0,0 +1,179 @@
+import { QueryBehavior, QueryInfoState } from './queryInfo'
+import { isFunction, isPromiseLike, noop } from './utils'
+
+export type StreamSource<TChunk> =
+  | AsyncIterable<TChunk>
+  | ReadableStream<TChunk>
+
+/**
+ * How the data is handled when a query which already has data is streamed again:
+ * - `reset`: the query goes back to the `pending` state and the data is rebuilt from `initialValue`
+ * - `append`: the new chunks are reduced into the existing data
+ * - `replace`: the existing data is kept until the stream ends, then replaced at once
+ */
+export type StreamRefetchMode = 'reset' | 'append' | 'replace'
+
+export interface StreamQueryOptions<TChunk = unknown, TFetcherData = TChunk[]> {
+  /**
+   * Reduces each chunk into the query data.
+   * Defaults to collecting the chunks into an array.
+   */
+  reducer?: (data: TFetcherData, chunk: TChunk) => TFetcherData
+  /**
+   * The data the chunks are reduced into, defaults to an empty array.
+   */
+  initialValue?: TFetcherData
+  /**
+   * Defaults to `reset`.
+   */
+  refetchMode?: StreamRefetchMode
+}
+
+export interface StreamHandlers<TQueryData, TError> {
+  /**
+   * Sets the data reduced so far while the query keeps fetching
+   */
+  onChunk: (data: TQueryData) => void
+  setState: (state: Partial<QueryInfoState<TQueryData, TError>>) => void
+}
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> => {
+  return (
+    !!value &&
+    isFunction((value as AsyncIterable<unknown>)[Symbol.asyncIterator])
+  )
+}
+
+const isReadableStream = (value: unknown): value is ReadableStream<unknown> => {
+  return !!value && isFunction((value as ReadableStream<unknown>).getReader)
+}
+
+export const isStreamSource = (
+  value: unknown
+): value is StreamSource<unknown> => {
+  return isAsyncIterable(value) || isReadableStream(value)
+}
+
+async function* readIterable<TChunk>(
+  iterable: AsyncIterable<TChunk>,
+  signal: AbortSignal
+): AsyncGenerator<TChunk> {
+  const iterator = iterable[Symbol.asyncIterator]()
+  let done = false
+  // Lets the source clean up, even while it is waiting for its next chunk
+  const onAbort = () => {
+    Promise.resolve(iterator.return?.()).catch(noop)
+  }
+
+  signal.addEventListener('abort', onAbort)
+
+  try {
+    while (!done) {
+      const result = await iterator.next()
+      done = !!result.done
+      if (!done) yield result.value
+    }
+  } finally {
+    signal.removeEventListener('abort', onAbort)
+    if (!done && !signal.aborted) onAbort()
+  }
+}
+
+async function* readStream<TChunk>(
+  stream: ReadableStream<TChunk>,
+  signal: AbortSignal
+): AsyncGenerator<TChunk> {
+  const reader = stream.getReader()
+  const onAbort = () => {
+    reader.cancel().catch(noop)
+  }
+
+  signal.addEventListener('abort', onAbort)
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    signal.removeEventListener('abort', onAbort)
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Consumes fetchers which return an `AsyncIterable` or a `ReadableStream`,
+ * fetchers which return anything else are left as they are.
+ */
+export const createStreamQueryBehavior = <
+  TFetcherData,
+  TVars,
+  TError,
+  TQueryData
+>({
+  onChunk,
+  setState,
+}: StreamHandlers<TQueryData, TError>): QueryBehavior<
+  TFetcherData,
+  TVars,
+  TError,
+  TQueryData
+> => {
+  return {
+    onFetch: context => {
+      const fetchFn = context.fetchFn
+
+      const consume = async (source: StreamSource<unknown>) => {
+        const {
+          reducer = (data: unknown[], chunk: unknown) => [...data, chunk],
+          initialValue = [],
+          refetchMode = 'reset',
+        } = context.query as StreamQueryOptions<unknown, any>
+        const { signal } = context
+        const hasData = !!context.state.dataUpdatedAt
+
+        if (hasData && refetchMode === 'reset') {
+          setState({
+            data: undefined,
+            status: 'pending',
+            error: null,
+          })
+        }
+
+        let data =
+          hasData && refetchMode === 'append'
+            ? context.state.data
+            : initialValue
+
+        const iterable = isAsyncIterable(source)
+          ? readIterable(source, signal)
+          : readStream(source, signal)
+
+        for await (const chunk of iterable) {
+          if (signal.aborted) break
+
+          data = reducer(data, chunk)
+
+          if (!(hasData && refetchMode === 'replace')) {
+            onChunk(data as TQueryData)
+          }
+        }
+
+        return data
+      }
+
+      context.fetchFn = () => {
+        const result = fetchFn()
+
+        if (isPromiseLike(result)) {
+          return result.then(value =>
+            isStreamSource(value) ? consume(value) : value
+          )
+        }
+
+        return isStreamSource(result) ? consume(result) : result
+      }
+    },
+  }
+}
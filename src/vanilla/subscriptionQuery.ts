@@ -0,0 +1,50 @@
+import { PrimitiveQueryOptions, primitiveQuery } from './primitiveQuery'
+import { Query } from './query'
+import { SubscribeFunction } from './subscriptionQueryBehavior'
+
+export type {
+  SubscribeFunction,
+  SubscriptionObserver,
+} from './subscriptionQueryBehavior'
+
+export interface SubscriptionQueryOptions<
+  TFetcherData = unknown,
+  TVars = void,
+  TError = Error
+> extends Omit<
+    PrimitiveQueryOptions<TFetcherData, TVars, TError>,
+    '_type' | '_default' | 'fetcher'
+  > {
+  subscribe: SubscribeFunction<TFetcherData, TVars, TError>
+}
+
+export interface SubscriptionQuery<
+  TFetcherData = unknown,
+  TVars = void,
+  TError = Error
+> extends Query<TFetcherData, TVars, TError> {
+  subscribe: SubscribeFunction<TFetcherData, TVars, TError>
+  $sub$: true
+}
+
+/**
+ * Creates a query whose data is pushed by a source instead of being fetched.
+ * The source is connected while the query has observers,
+ * the data is fresh until then, so `staleTime` defaults to `Infinity`.
+ */
+export function subscriptionQuery<
+  TFetcherData = unknown,
+  TVars = void,
+  TError = Error
+>(
+  options: SubscriptionQueryOptions<TFetcherData, TVars, TError>
+): SubscriptionQuery<TFetcherData, TVars, TError> {
+  return primitiveQuery({
+    staleTime: Infinity,
+    ...options,
+    // Replaced by the subscription query behavior
+    fetcher: () =>
+      Promise.reject(new Error('Subscription queries are not fetched')),
+    $sub$: true,
+  }) as SubscriptionQuery<TFetcherData, TVars, TError>
+}
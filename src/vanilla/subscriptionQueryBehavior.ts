@@ -0,0 +1,118 @@
+import { PrimitiveQuery } from './primitiveQuery'
+import { QueryBehavior } from './queryInfo'
+import type { SubscriptionQuery } from './subscriptionQuery'
+
+export interface SubscriptionObserver<TFetcherData, TError> {
+  next: (data: TFetcherData) => void
+  error: (error: TError) => void
+}
+
+/**
+ * Connects to a push source, e.g. a WebSocket or an EventSource.
+ * @returns a function which closes the connection
+ */
+export type SubscribeFunction<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error
+> = (
+  variables: TVars,
+  observer: SubscriptionObserver<TFetcherData, TError>
+) => () => void
+
+export interface SubscriptionHandlers<TQueryData, TError> {
+  /**
+   * Called with the values pushed after the first one
+   */
+  onData: (data: TQueryData) => void
+  /**
+   * Called with the errors pushed after the first value
+   */
+  onError: (error: TError) => void
+  /**
+   * Closes the current connection and keeps the new one, if any
+   */
+  setTeardown: (teardown?: () => void) => void
+}
+
+export const isSubscriptionQuery = (
+  query: PrimitiveQuery<any, any, any, any>
+): query is SubscriptionQuery<any, any, any> => {
+  return !!query.$sub$
+}
+
+/**
+ * Fetching a subscription query (re)connects to its push source,
+ * the fetch resolves with the first value pushed by the source.
+ */
+export const createSubscriptionQueryBehavior = <
+  TFetcherData,
+  TVars,
+  TError,
+  TQueryData
+>({
+  onData,
+  onError,
+  setTeardown,
+}: SubscriptionHandlers<TQueryData, TError>): QueryBehavior<
+  TFetcherData,
+  TVars,
+  TError,
+  TQueryData
+> => {
+  return {
+    onFetch: context => {
+      const { subscribe } = context.query as SubscriptionQuery<
+        TQueryData,
+        TVars,
+        TError
+      >
+
+      context.fetchFn = () =>
+        new Promise<TQueryData>((resolve, reject) => {
+          let connected = false
+          let closed = false
+
+          setTeardown()
+
+          const teardown = subscribe(context.variables, {
+            next: data => {
+              if (closed) {
+                return
+              }
+
+              if (connected) {
+                onData(data)
+              } else {
+                connected = true
+                resolve(data)
+              }
+            },
+            error: error => {
+              if (closed) {
+                return
+              }
+
+              closed = true
+              setTeardown()
+
+              if (connected) {
+                onError(error)
+              } else {
+                reject(error)
+              }
+            },
+          })
+
+          // The source may have failed while connecting
+          if (closed) {
+            teardown()
+          } else {
+            setTeardown(teardown)
+          }
+
+          context.signal.addEventListener('abort', () => setTeardown())
+        })
+    },
+  }
+}
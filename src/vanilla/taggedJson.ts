@@ -0,0 +1,179 @@
+import { isPlainObject, isUndefined } from './utils'
+
+/**
+ * A value which is not JSON, encoded as `{ $t: type, v: value }`
+ */
+interface TaggedValue {
+  $t: string
+  v?: unknown
+}
+
+const tag = ($t: string, v?: unknown): TaggedValue =>
+  isUndefined(v) ? { $t } : { $t, v }
+
+const isTaggedValue = (value: unknown): value is TaggedValue =>
+  isPlainObject(value) &&
+  typeof (value as Record<string, unknown>).$t === 'string'
+
+const mapValues = (
+  value: Record<string, unknown>,
+  fn: (item: unknown) => unknown
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {}
+
+  Object.keys(value).forEach(key => {
+    result[key] = fn(value[key])
+  })
+
+  return result
+}
+
+/**
+ * Encodes the values JSON can not represent as tagged values,
+ * so that they survive a JSON round trip:
+ * `undefined`, `NaN`, `Infinity`, `-0`, `BigInt`, `Date`, `RegExp`, `Map`, `Set` and `Error`.
+ * Use it as `serializeData` of `dehydrate`.
+ */
+export const toTaggedJson = (value: unknown): unknown => {
+  if (isUndefined(value)) {
+    return tag('undefined')
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && !Object.is(value, -0)
+      ? value
+      : tag('number', String(value === 0 ? '-0' : value))
+  }
+
+  if (typeof value === 'bigint') {
+    return tag('bigint', value.toString())
+  }
+
+  if (value instanceof Date) {
+    return tag('Date', toTaggedJson(value.getTime()))
+  }
+
+  if (value instanceof RegExp) {
+    return tag('RegExp', [value.source, value.flags])
+  }
+
+  if (value instanceof Map) {
+    return tag(
+      'Map',
+      Array.from(value, ([key, item]) => [
+        toTaggedJson(key),
+        toTaggedJson(item),
+      ])
+    )
+  }
+
+  if (value instanceof Set) {
+    return tag('Set', Array.from(value, toTaggedJson))
+  }
+
+  if (value instanceof Error) {
+    const { name, message, stack } = value
+    return tag('Error', { name, message, ...(stack && { stack }) })
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toTaggedJson)
+  }
+
+  if (isPlainObject(value)) {
+    const encoded = mapValues(value as Record<string, unknown>, toTaggedJson)
+
+    // Keeps objects which look like tagged values apart
+    return '$t' in encoded ? tag('Object', encoded) : encoded
+  }
+
+  return value
+}
+
+/**
+ * Decodes the tagged values of `toTaggedJson`.
+ * Use it as `deserializeData` of `hydrate`.
+ */
+export const fromTaggedJson = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(fromTaggedJson)
+  }
+
+  if (!isPlainObject(value)) {
+    return value
+  }
+
+  if (!isTaggedValue(value)) {
+    return mapValues(value as Record<string, unknown>, fromTaggedJson)
+  }
+
+  const { $t, v } = value
+
+  switch ($t) {
+    case 'undefined':
+      return undefined
+    case 'number':
+      return Number(v)
+    case 'bigint':
+      return BigInt(v as string)
+    case 'Date':
+      return new Date(fromTaggedJson(v) as number)
+    case 'RegExp':
+      return new RegExp(...(v as [string, string]))
+    case 'Map':
+      return new Map(
+        (v as Array<[unknown, unknown]>).map(([key, item]) => [
+          fromTaggedJson(key),
+          fromTaggedJson(item),
+        ])
+      )
+    case 'Set':
+      return new Set((v as unknown[]).map(fromTaggedJson))
+    case 'Error': {
+      const { name, message, stack } = v as Record<string, string>
+      const error = new Error(message)
+      error.name = name!
+      if (stack) error.stack = stack
+      return error
+    }
+    case 'Object':
+      return mapValues(v as Record<string, unknown>, fromTaggedJson)
+    default:
+      if (process.env.NODE_ENV !== 'production') {
+        console.error(`Unknown tagged value: '${$t}'`)
+      }
+      return value
+  }
+}
+
+const scriptUnsafeChars: Record<string, string> = {
+  '<': '\\u003c',
+  '>': '\\u003e',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029',
+}
+
+/**
+ * Stringifies a value with `toTaggedJson`, e.g. a whole dehydrated state,
+ * errors in `state.error` included.
+ * The result is escaped, so it can be inlined in a `<script>` tag as is.
+ *
+ * @example
+ * `<script>window.__QUAERE_STATE__ = ${stringifyTaggedJson(dehydrate(client))}</script>`
+ * // on the client
+ * hydrate(client, fromTaggedJson(window.__QUAERE_STATE__))
+ */
+export const stringifyTaggedJson = (value: unknown): string => {
+  return JSON.stringify(toTaggedJson(value)).replace(
+    /[<>&\u2028\u2029]/g,
+    char => scriptUnsafeChars[char]!
+  )
+}
+
+/**
+ * Parses a string of `stringifyTaggedJson`
+ */
+export const parseTaggedJson = (text: string): unknown => {
+  return fromTaggedJson(JSON.parse(text))
+}
@@ -0,0 +1,244 @@
+import { vi } from 'vitest'
+
+import {
+  BroadcastChannelLike,
+  broadcastQueryClient,
+} from '../broadcastQueryClient'
+import { createObservableQuery } from '../observableQuery'
+import { query } from '../query'
+import { createQueryClient } from '../queryClient'
+import { generatekey } from '../utils'
+import { sleep } from './utils'
+
+// Two ends of the same channel, as seen from two tabs.
+// Deferred messages are delivered once flushed
+const createChannelPair = (
+  deferred = false
+): [BroadcastChannelLike, BroadcastChannelLike, () => void] => {
+  const queue: Array<() => void> = []
+
+  const createChannel = (
+    getOther: () => BroadcastChannelLike
+  ): BroadcastChannelLike => ({
+    postMessage: message => {
+      const deliver = () => getOther().onmessage?.({ data: message })
+
+      if (deferred) {
+        queue.push(deliver)
+      } else {
+        deliver()
+      }
+    },
+    onmessage: null,
+    close: () => {},
+  })
+
+  const first: BroadcastChannelLike = createChannel(() => second)
+  const second: BroadcastChannelLike = createChannel(() => first)
+
+  return [first, second, () => queue.splice(0).forEach(deliver => deliver())]
+}
+
+describe('broadcastQueryClient', () => {
+  const setup = () => {
+    const [channel1, channel2] = createChannelPair()
+    const client1 = createQueryClient()
+    const client2 = createQueryClient()
+    const stop1 = broadcastQueryClient({ client: client1, channel: channel1 })
+    const stop2 = broadcastQueryClient({ client: client2, channel: channel2 })
+
+    return {
+      client1,
+      client2,
+      channel1,
+      cleanup: () => {
+        stop1()
+        stop2()
+        client1.clear()
+        client2.clear()
+      },
+    }
+  }
+
+  it('should mirror successful data updates to the other tab', async () => {
+    const { client1, client2, cleanup } = setup()
+    const anQuery = query({
+      key: 'todos',
+      fetcher: (id: number) => Promise.resolve(`todo ${id}`),
+    })
+
+    await client1.prefetchQuery({ query: anQuery, variables: 1 })
+
+    expect(client2.getQueryData({ query: anQuery, variables: 1 })).toBe(
+      'todo 1'
+    )
+
+    // Only data newer than the local one is applied
+    const { dataUpdatedAt } = client1.getQueryState({
+      query: anQuery,
+      variables: 1,
+    })!
+    client2.setQueryData({ query: anQuery, variables: 1 }, 'stale', {
+      updatedAt: dataUpdatedAt - 1,
+    })
+
+    expect(client1.getQueryData({ query: anQuery, variables: 1 })).toBe(
+      'todo 1'
+    )
+
+    client2.setQueryData({ query: anQuery, variables: 1 }, 'updated', {
+      updatedAt: dataUpdatedAt + 1,
+    })
+
+    expect(client1.getQueryData({ query: anQuery, variables: 1 })).toBe(
+      'updated'
+    )
+
+    cleanup()
+  })
+
+  it('should keep the same update in both tabs when made in the same millisecond', () => {
+    const [channel1, channel2, flush] = createChannelPair(true)
+    const client1 = createQueryClient()
+    const client2 = createQueryClient()
+    const stop1 = broadcastQueryClient({ client: client1, channel: channel1 })
+    const stop2 = broadcastQueryClient({ client: client2, channel: channel2 })
+    const anQuery = query({
+      key: 'concurrent',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    // Both tabs update the query before receiving the update of the other
+    client1.setQueryData({ query: anQuery }, 'tab 1', { updatedAt: 1000 })
+    client2.setQueryData({ query: anQuery }, 'tab 2', { updatedAt: 1000 })
+    flush()
+
+    expect(client1.getQueryData({ query: anQuery })).toBe(
+      client2.getQueryData({ query: anQuery })
+    )
+
+    stop1()
+    stop2()
+    client1.clear()
+    client2.clear()
+  })
+
+  it('should notify observers of the other tab', async () => {
+    const { client1, client2, cleanup } = setup()
+    const anQuery = query({
+      key: 'observed',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    const observer = createObservableQuery(client2, {
+      query: anQuery,
+      staleTime: Infinity,
+    })
+    const results: Array<unknown> = []
+    const unsubscribe = observer.subscribe(result => {
+      results.push(result.data)
+    })
+    await sleep(0)
+
+    client1.setQueryData({ query: anQuery }, 'from other tab')
+
+    expect(results[results.length - 1]).toBe('from other tab')
+
+    unsubscribe()
+    cleanup()
+  })
+
+  it('should mirror invalidations to the other tab', async () => {
+    const { client1, client2, cleanup } = setup()
+    const anQuery = query({
+      key: 'invalidated',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    await client1.prefetchQuery({ query: anQuery })
+    await client1.invalidateQueries({ query: anQuery })
+
+    expect(
+      client2.getQueryCache().find({ query: anQuery })?.state.isInvalidated
+    ).toBe(true)
+
+    cleanup()
+  })
+
+  it('should mirror removals of unobserved queries to the other tab', async () => {
+    const { client1, client2, cleanup } = setup()
+    const anQuery = query({
+      key: 'removed',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    await client1.prefetchQuery({ query: anQuery })
+    expect(client2.getQueryCache().find({ query: anQuery })).toBeDefined()
+
+    client1.removeQueries({ query: anQuery })
+
+    expect(client2.getQueryCache().find({ query: anQuery })).toBeUndefined()
+
+    cleanup()
+  })
+
+  it('should not broadcast queries with a generated key', async () => {
+    const { client1, client2, cleanup } = setup()
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    await client1.prefetchQuery({ query: anQuery })
+
+    expect(client2.getQueryCache().getAll()).toHaveLength(0)
+
+    cleanup()
+  })
+
+  it('should not throw when the data can not be sent', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const client = createQueryClient()
+    const stop = broadcastQueryClient({
+      client,
+      channel: {
+        postMessage: message => {
+          structuredClone(message)
+        },
+        onmessage: null,
+        close: () => {},
+      },
+    })
+    const anQuery = query({
+      key: 'uncloneable',
+      fetcher: () => Promise.resolve<unknown>('data'),
+    })
+
+    expect(() =>
+      client.setQueryData({ query: anQuery }, { symbol: Symbol('data') })
+    ).not.toThrow()
+    expect(error).toHaveBeenCalledTimes(1)
+
+    error.mockRestore()
+    stop()
+    client.clear()
+  })
+
+  it('should stop mirroring once stopped', async () => {
+    const { client1, client2, channel1, cleanup } = setup()
+    const anQuery = query({
+      key: 'stopped',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    cleanup()
+
+    expect(channel1.onmessage).toBeNull()
+
+    await client1.prefetchQuery({ query: anQuery })
+
+    expect(client2.getQueryData({ query: anQuery })).toBeUndefined()
+
+    client1.clear()
+  })
+})
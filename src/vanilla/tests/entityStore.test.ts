@@ -0,0 +1,233 @@
+import { createQueryClient, query } from '..'
+import type { EntitySchema, QueryClient } from '..'
+import { createObservableQuery } from '../observableQuery'
+import { generatekey } from '../utils'
+import { sleep } from './utils'
+
+interface User {
+  __typename: 'User'
+  id: number
+  name: string
+}
+
+interface Post {
+  __typename: 'Post'
+  id: number
+  title: string
+  author: User
+}
+
+const entities: EntitySchema = {
+  User: value => (value.__typename === 'User' ? value.id : undefined),
+  Post: value => (value.__typename === 'Post' ? value.id : undefined),
+}
+
+const alice: User = { __typename: 'User', id: 1, name: 'Alice' }
+const bob: User = { __typename: 'User', id: 2, name: 'Bob' }
+
+describe('entityStore', () => {
+  let queryClient: QueryClient
+
+  const userQuery = query({
+    key: generatekey(),
+    fetcher: (id: number) => Promise.resolve(id === 1 ? alice : bob),
+    entities,
+  })
+  const postsQuery = query({
+    key: generatekey(),
+    fetcher: (): Promise<Post[]> =>
+      Promise.resolve([
+        { __typename: 'Post', id: 10, title: 'Hello', author: alice },
+        { __typename: 'Post', id: 11, title: 'World', author: bob },
+      ]),
+    entities,
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+    queryClient.mount()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should update every query holding an entity when it is set', async () => {
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: postsQuery })
+
+    const renamed = queryClient.setEntity<User>('User', 1, user => ({
+      ...user!,
+      name: 'Alice Liddell',
+    }))
+
+    expect(renamed).toEqual({ ...alice, name: 'Alice Liddell' })
+    expect(
+      queryClient.getQueryData({ query: userQuery, variables: 1 })
+    ).toEqual(renamed)
+    expect(queryClient.getQueryData({ query: postsQuery })![0]!.author).toEqual(
+      renamed
+    )
+  })
+
+  it('should share the unchanged parts of the data', async () => {
+    await queryClient.prefetchQuery({ query: postsQuery })
+    const prevPosts = queryClient.getQueryData({ query: postsQuery })!
+
+    queryClient.setEntity<User>('User', 1, user => ({
+      ...user!,
+      name: 'Alice Liddell',
+    }))
+
+    const posts = queryClient.getQueryData({ query: postsQuery })!
+
+    expect(posts).not.toBe(prevPosts)
+    expect(posts[0]).not.toBe(prevPosts[0])
+    expect(posts[1]).toBe(prevPosts[1])
+  })
+
+  it('should update the other queries when a query receives new data', async () => {
+    await queryClient.prefetchQuery({ query: userQuery, variables: 2 })
+    await queryClient.prefetchQuery({ query: postsQuery })
+
+    queryClient.setQueryData({ query: userQuery, variables: 2 }, user => ({
+      ...user!,
+      name: 'Robert',
+    }))
+
+    expect(
+      queryClient.getQueryData({ query: postsQuery })![1]!.author.name
+    ).toBe('Robert')
+    expect(queryClient.getEntity<User>('User', 2)?.name).toBe('Robert')
+  })
+
+  it('should keep the state of the updated queries', async () => {
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+    await queryClient.invalidateQueries({ query: userQuery })
+    const prevState = queryClient.getQueryState({
+      query: userQuery,
+      variables: 1,
+    })!
+
+    queryClient.setEntity<User>('User', 1, user => ({ ...user!, name: 'A' }))
+
+    expect(
+      queryClient.getQueryState({ query: userQuery, variables: 1 })
+    ).toEqual({ ...prevState, data: { ...alice, name: 'A' } })
+  })
+
+  it('should notify the observers of the updated queries', async () => {
+    await queryClient.prefetchQuery({ query: postsQuery })
+
+    const observer = createObservableQuery(queryClient, {
+      query: postsQuery,
+      staleTime: Infinity,
+    })
+    const results: Array<Post[] | undefined> = []
+    const unsubscribe = observer.subscribe(result => {
+      results.push(result.data)
+    })
+    await sleep(0)
+
+    queryClient.setEntity<Post>('Post', 11, post => ({
+      ...post!,
+      title: 'Updated',
+    }))
+
+    expect(results.at(-1)?.[1]?.title).toBe('Updated')
+
+    unsubscribe()
+  })
+
+  it('should ignore queries without entities and unknown entities', async () => {
+    const plainQuery = query({
+      key: generatekey(),
+      fetcher: () => Promise.resolve(alice),
+    })
+    await queryClient.prefetchQuery({ query: plainQuery })
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+
+    queryClient.setEntity<User>('User', 1, user => ({ ...user!, name: 'A' }))
+
+    expect(queryClient.getQueryData({ query: plainQuery })).toBe(alice)
+    expect(queryClient.setEntity('User', 3, bob)).toBeUndefined()
+    expect(queryClient.getEntity('User', 3)).toBeUndefined()
+  })
+
+  it('should drop the entities once no query holds them', async () => {
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: postsQuery })
+
+    queryClient.removeQueries({ query: postsQuery })
+
+    expect(queryClient.getEntity('User', 1)).toEqual(alice)
+    expect(queryClient.getEntity('User', 2)).toBeUndefined()
+    expect(queryClient.getEntity('Post', 10)).toBeUndefined()
+  })
+
+  it('should merge the fields held by different queries', async () => {
+    const profileQuery = query({
+      key: generatekey(),
+      fetcher: () =>
+        Promise.resolve({ ...alice, email: 'alice@example.com' } as User),
+      entities,
+    })
+    const nameQuery = query({
+      key: generatekey(),
+      fetcher: () =>
+        Promise.resolve({ __typename: 'User', id: 1, name: 'Alicia' } as User),
+      entities,
+    })
+
+    await queryClient.prefetchQuery({ query: profileQuery })
+    await queryClient.prefetchQuery({ query: nameQuery })
+
+    expect(queryClient.getQueryData({ query: profileQuery })).toEqual({
+      ...alice,
+      name: 'Alicia',
+      email: 'alice@example.com',
+    })
+    expect(queryClient.getEntity('User', 1)).toEqual({
+      ...alice,
+      name: 'Alicia',
+      email: 'alice@example.com',
+    })
+  })
+
+  it('should stop syncing once the client is unmounted', async () => {
+    queryClient.unmount()
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+
+    expect(queryClient.getEntity('User', 1)).toBeUndefined()
+
+    queryClient.mount()
+    queryClient.setQueryData({ query: userQuery, variables: 1 }, alice)
+
+    expect(queryClient.getEntity('User', 1)).toEqual(alice)
+  })
+
+  it('should keep syncing once the client is cleared', async () => {
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+
+    queryClient.clear()
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+
+    const renamed = queryClient.setEntity<User>('User', 1, user => ({
+      ...user!,
+      name: 'Alice Liddell',
+    }))
+
+    expect(renamed).toEqual({ ...alice, name: 'Alice Liddell' })
+    expect(
+      queryClient.getQueryData({ query: userQuery, variables: 1 })
+    ).toEqual(renamed)
+  })
+
+  it('should sync the queries fetched while the client was unmounted', async () => {
+    queryClient.unmount()
+    await queryClient.prefetchQuery({ query: userQuery, variables: 1 })
+    queryClient.mount()
+
+    expect(queryClient.getEntity('User', 1)).toEqual(alice)
+  })
+})
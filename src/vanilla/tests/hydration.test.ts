@@ -1,10 +1,21 @@
 import { expect, vi } from 'vitest'
 
-import { dehydrate, hydrate } from '../hydration'
+import {
+  DehydratedState,
+  defaultShouldDehydrateQuery,
+  dehydrate,
+  hydrate,
+  shouldDehydrateQueryWithErrors,
+  streamDehydratedState,
+} from '../hydration'
+import { findMutation, forgetMutation, mutation } from '../mutation'
+import { onlineManager } from '../onlineManager'
 import { query } from '../query'
 import { createQueryCache } from '../queryCache'
 import { createQueryClient } from '../queryClient'
-import { sleep } from './utils'
+import { queryWithInfinite } from '../queryWithInfinite'
+import { fromTaggedJson, toTaggedJson } from '../taggedJson'
+import { mockOnlineManagerIsOnline, sleep } from './utils'
 
 async function fetchData<TData>(value: TData, ms?: number): Promise<TData> {
   await sleep(ms || 0)
@@ -507,4 +518,492 @@ describe('dehydration and rehydration', () => {
     })
     expect(hydrationCache.find({ query: noMetaQuery })?.meta).toEqual(undefined)
   })
+
+  it('should dehydrate and hydrate infinite queries with cursor page params', async () => {
+    const queryClient = createQueryClient()
+    const cursorQuery = queryWithInfinite({
+      key: 'cursor',
+      fetcher: (_: void, { pageParam }) => fetchData(`page ${pageParam}`),
+      initialPageParam: 'a',
+      getNextPageParam: (_, __, lastPageParam) =>
+        lastPageParam === 'a' ? 'b' : 'c',
+    })
+
+    await queryClient.prefetchQuery({ query: cursorQuery })
+
+    const parsed = JSON.parse(JSON.stringify(dehydrate(queryClient)))
+    const hydrationClient = createQueryClient()
+    hydrate(hydrationClient, parsed)
+
+    expect(hydrationClient.getQueryData({ query: cursorQuery })).toEqual({
+      pages: ['page a'],
+      pageParams: ['a'],
+    })
+
+    const observer = hydrationClient.watchQuery({ query: cursorQuery })
+    await observer.fetchNextPage()
+
+    expect(observer.getCurrentResult().data).toEqual({
+      pages: ['page a', 'page b'],
+      pageParams: ['a', 'b'],
+    })
+
+    queryClient.clear()
+    hydrationClient.clear()
+  })
+
+  it('should dehydrate and resume paused mutations', async () => {
+    const onlineMock = mockOnlineManagerIsOnline(false)
+
+    const serverFetcher = vi.fn().mockImplementation(() => fetchData('server'))
+    const serverMutation = mutation({
+      key: 'paused-mutation',
+      fetcher: serverFetcher,
+      meta: { some: 'meta' },
+    })
+    const queryClient = createQueryClient()
+
+    queryClient.triggerMutation({
+      mutation: serverMutation,
+      variables: { id: 1 },
+    })
+    await sleep(0)
+
+    const dehydrated = dehydrate(queryClient)
+    expect(serverFetcher).not.toHaveBeenCalled()
+    expect(dehydrated.mutations).toHaveLength(1)
+    expect(dehydrated.mutations[0]?.mutation).toEqual({
+      key: 'paused-mutation',
+    })
+    expect(dehydrated.mutations[0]?.meta).toEqual({ some: 'meta' })
+
+    const stringified = JSON.stringify(dehydrated)
+
+    // ---
+
+    const clientFetcher = vi.fn().mockImplementation(() => fetchData('client'))
+    const clientMutation = mutation({
+      key: 'paused-mutation',
+      fetcher: clientFetcher,
+    })
+    const hydrationClient = createQueryClient()
+    hydrate(hydrationClient, JSON.parse(stringified))
+
+    const mutationInfo = hydrationClient
+      .getMutationCache()
+      .find({ mutation: clientMutation })
+    expect(mutationInfo?.state.status).toBe('mutating')
+    expect(mutationInfo?.state.variables).toEqual({ id: 1 })
+    expect(mutationInfo?.meta).toEqual({ some: 'meta' })
+
+    await hydrationClient.resumePausedMutations()
+    expect(clientFetcher).not.toHaveBeenCalled()
+
+    onlineMock.mockReturnValue(true)
+    await hydrationClient.resumePausedMutations()
+
+    expect(clientFetcher).toHaveBeenCalledTimes(1)
+    expect(clientFetcher).toHaveBeenCalledWith({ id: 1 }, expect.anything())
+    expect(mutationInfo?.state).toMatchObject({
+      status: 'success',
+      data: 'client',
+    })
+
+    onlineMock.mockRestore()
+    queryClient.clear()
+    hydrationClient.clear()
+  })
+
+  it('should resume hydrated mutations when going online', async () => {
+    const onlineMock = mockOnlineManagerIsOnline(false)
+    const fetcher = vi.fn().mockImplementation(() => fetchData('data'))
+    const anMutation = mutation({
+      key: 'online-mutation',
+      fetcher,
+    })
+    const queryClient = createQueryClient()
+    queryClient.triggerMutation({ mutation: anMutation, variables: 1 })
+    await sleep(0)
+
+    const dehydrated = JSON.parse(JSON.stringify(dehydrate(queryClient)))
+
+    const hydrationClient = createQueryClient()
+    hydrationClient.mount()
+    hydrate(hydrationClient, dehydrated)
+
+    onlineMock.mockRestore()
+    onlineManager.setOnline(false)
+    onlineManager.setOnline(true)
+    await sleep(10)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(
+      hydrationClient.getMutationCache().find({ mutation: anMutation })?.state
+        .status
+    ).toBe('success')
+
+    hydrationClient.unmount()
+    queryClient.clear()
+    hydrationClient.clear()
+  })
+
+  it('should not dehydrate mutations without a key or a paused state', async () => {
+    const queryClient = createQueryClient()
+    const unkeyedMutation = mutation({
+      fetcher: () => new Promise(() => undefined),
+    })
+    const settledMutation = mutation({
+      key: 'settled-mutation',
+      fetcher: () => fetchData('settled'),
+    })
+
+    queryClient.triggerMutation({ mutation: unkeyedMutation })
+    await queryClient.triggerMutation({ mutation: settledMutation })
+
+    expect(dehydrate(queryClient).mutations).toHaveLength(0)
+    expect(
+      dehydrate(queryClient, { shouldDehydrateMutation: () => true }).mutations
+    ).toHaveLength(1)
+
+    queryClient.clear()
+  })
+
+  it('should forget a keyed mutation', () => {
+    const anMutation = mutation({
+      key: 'forgotten-mutation',
+      fetcher: () => fetchData('data'),
+    })
+
+    expect(findMutation('forgotten-mutation')).toBe(anMutation)
+
+    forgetMutation(anMutation)
+
+    expect(findMutation('forgotten-mutation')).toBeUndefined()
+  })
+
+  it('should warn once about skipped queries with a generated key', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const queryClient = createQueryClient()
+    const unkeyedQuery = query({ fetcher: () => fetchData('unkeyed') })
+    const unmatchedQuery = query({ fetcher: () => fetchData('unmatched') })
+
+    await queryClient.prefetchQuery({ query: unkeyedQuery })
+    await queryClient.prefetchQuery({ query: unmatchedQuery })
+
+    const shouldDehydrateQuery = (queryInfo: { query: unknown }) =>
+      queryInfo.query === unkeyedQuery
+
+    expect(dehydrate(queryClient, { shouldDehydrateQuery }).queries).toEqual([])
+    dehydrate(queryClient, { shouldDehydrateQuery })
+
+    expect(warn).toHaveBeenCalledTimes(1)
+    expect(warn.mock.calls[0]![0]).toContain(unkeyedQuery.key)
+
+    warn.mockRestore()
+    queryClient.clear()
+  })
+
+  it('should dehydrate pending queries with the promise of their fetch', async () => {
+    const serverClient = createQueryClient()
+    const fetcher = vi.fn(() => fetchData('string', 10))
+    const pendingQuery = query({ key: 'pending', fetcher })
+
+    serverClient.prefetchQuery({ query: pendingQuery })
+
+    const dehydrated = dehydrate(serverClient, {
+      shouldDehydrateQuery: queryInfo =>
+        defaultShouldDehydrateQuery(queryInfo) ||
+        queryInfo.state.status === 'pending',
+    })
+
+    expect(dehydrated.queries[0]?.promise).toBeInstanceOf(Promise)
+
+    const clientClient = createQueryClient()
+    hydrate(clientClient, dehydrated)
+
+    expect(
+      clientClient.getQueryCache().find({ query: pendingQuery })?.state
+        .fetchStatus
+    ).toBe('fetching')
+    await expect(
+      clientClient.fetchQuery({ query: pendingQuery })
+    ).resolves.toBe('string')
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should not attach the fetch of the server when the client has newer data', async () => {
+    const serverClient = createQueryClient()
+    const pendingQuery = query({
+      key: 'pending-older',
+      fetcher: () => fetchData('server', 10),
+    })
+
+    serverClient.prefetchQuery({ query: pendingQuery })
+
+    const dehydrated = dehydrate(serverClient, {
+      shouldDehydrateQuery: queryInfo => queryInfo.state.status === 'pending',
+    })
+
+    const clientClient = createQueryClient()
+    clientClient.setQueryData({ query: pendingQuery }, 'client')
+    hydrate(clientClient, dehydrated)
+
+    await sleep(20)
+
+    expect(clientClient.getQueryData({ query: pendingQuery })).toBe('client')
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should stream the pending queries once they settle', async () => {
+    const serverClient = createQueryClient()
+    const streamedQuery = query({
+      key: 'streamed',
+      fetcher: () => fetchData('string', 10),
+    })
+    const failedQuery = query({
+      key: 'streamed-failed',
+      fetcher: (): Promise<string> => Promise.reject(new Error('failed')),
+    })
+
+    serverClient.prefetchQuery({ query: streamedQuery })
+    serverClient.prefetchQuery({ query: failedQuery, retry: false })
+
+    const chunks: string[] = []
+    const dehydrated = streamDehydratedState(
+      serverClient,
+      dehydrate(serverClient, {
+        shouldDehydrateQuery: queryInfo => queryInfo.state.status === 'pending',
+      }),
+      settled => {
+        chunks.push(JSON.stringify(settled))
+      }
+    )
+
+    const clientClient = createQueryClient()
+    hydrate(clientClient, JSON.parse(JSON.stringify(dehydrated)), {
+      defaultOptions: { queries: { retry: false } },
+    })
+
+    const data = clientClient.fetchQuery({ query: streamedQuery })
+    const error = clientClient.fetchQuery({ query: failedQuery })
+
+    await sleep(20)
+    expect(chunks).toHaveLength(2)
+    chunks.forEach(chunk => {
+      hydrate(clientClient, JSON.parse(chunk) as DehydratedState)
+    })
+
+    await expect(data).resolves.toBe('string')
+    await expect(error).rejects.toBeDefined()
+    expect(
+      clientClient.getQueryCache().find({ query: failedQuery })?.state.status
+    ).toBe('error')
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should stop waiting for a streamed query once it is removed', async () => {
+    const serverClient = createQueryClient()
+    const streamedQuery = query({
+      key: 'streamed-removed',
+      fetcher: () => fetchData('string', 10),
+    })
+
+    serverClient.prefetchQuery({ query: streamedQuery })
+
+    const chunks: string[] = []
+    const dehydrated = streamDehydratedState(
+      serverClient,
+      dehydrate(serverClient, {
+        shouldDehydrateQuery: queryInfo => queryInfo.state.status === 'pending',
+      }),
+      settled => {
+        chunks.push(JSON.stringify(settled))
+      }
+    )
+
+    const clientClient = createQueryClient()
+    hydrate(clientClient, JSON.parse(JSON.stringify(dehydrated)))
+    clientClient.clear()
+
+    await sleep(20)
+    hydrate(clientClient, JSON.parse(chunks[0]!) as DehydratedState)
+
+    expect(clientClient.getQueryData({ query: streamedQuery })).toBe('string')
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should serialize the data and the errors of the queries', async () => {
+    const serverClient = createQueryClient()
+    const data = { date: new Date(2023, 0, 1), tags: new Set(['a', 'b']) }
+    const dataQuery = query({
+      key: 'serialized',
+      fetcher: () => fetchData(data),
+    })
+    const errorQuery = query({
+      key: 'serialized-error',
+      fetcher: (): Promise<string> => Promise.reject(new Error('failed')),
+    })
+
+    await serverClient.prefetchQuery({ query: dataQuery })
+    await serverClient.prefetchQuery({ query: errorQuery, retry: false })
+
+    const dehydrated = dehydrate(serverClient, {
+      shouldDehydrateQuery: () => true,
+      serializeData: toTaggedJson,
+    })
+
+    const clientClient = createQueryClient()
+    hydrate(clientClient, JSON.parse(JSON.stringify(dehydrated)), {
+      deserializeData: fromTaggedJson,
+    })
+
+    expect(clientClient.getQueryData({ query: dataQuery })).toEqual(data)
+    expect(clientClient.getQueryState({ query: errorQuery })?.error).toEqual(
+      new Error('failed')
+    )
+    expect(
+      serverClient.getQueryState({ query: dataQuery })?.data?.date
+    ).toBeInstanceOf(Date)
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should dehydrate the failed queries without their stack', async () => {
+    const serverClient = createQueryClient()
+    const fetcher = vi.fn(
+      (): Promise<string> => Promise.reject(new TypeError('failed'))
+    )
+    const failedQuery = query({ key: 'failed', fetcher })
+
+    await serverClient.prefetchQuery({ query: failedQuery, retry: false })
+
+    expect(dehydrate(serverClient).queries).toHaveLength(0)
+
+    // Errors are left as they are without a serializer
+    expect(
+      dehydrate(serverClient, {
+        shouldDehydrateQuery: shouldDehydrateQueryWithErrors,
+      }).queries[0]?.state.error
+    ).toMatchObject({ name: 'TypeError', message: 'failed', stack: '' })
+
+    const dehydrated = dehydrate(serverClient, {
+      shouldDehydrateQuery: shouldDehydrateQueryWithErrors,
+      serializeData: toTaggedJson,
+    })
+
+    expect(JSON.stringify(dehydrated)).not.toContain('stack')
+
+    const clientClient = createQueryClient()
+    hydrate(clientClient, JSON.parse(JSON.stringify(dehydrated)), {
+      deserializeData: fromTaggedJson,
+    })
+
+    const { error, status } = clientClient.getQueryState({
+      query: failedQuery,
+    })!
+
+    expect(status).toBe('error')
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toMatchObject({ name: 'TypeError', message: 'failed' })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should hydrate the error of a query the client already holds', async () => {
+    const serverClient = createQueryClient()
+    const failedQuery = query({
+      key: 'failed-existing',
+      fetcher: (): Promise<string> => Promise.reject(new Error('failed')),
+    })
+
+    await serverClient.prefetchQuery({ query: failedQuery, retry: false })
+
+    const dehydrated = dehydrate(serverClient, {
+      shouldDehydrateQuery: shouldDehydrateQueryWithErrors,
+    })
+
+    const clientClient = createQueryClient()
+    clientClient.getQueryCache().build(clientClient, { query: failedQuery })
+    hydrate(clientClient, dehydrated)
+
+    expect(clientClient.getQueryState({ query: failedQuery })).toMatchObject({
+      status: 'error',
+      error: { message: 'failed' },
+    })
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should render the error of a fetch attached on hydrate without retrying', async () => {
+    const serverClient = createQueryClient()
+    const fetcher = vi.fn(
+      (): Promise<string> => Promise.reject(new Error('failed'))
+    )
+    const failedQuery = query({ key: 'attached-failed', fetcher })
+
+    serverClient.prefetchQuery({ query: failedQuery, retry: false })
+
+    const dehydrated = dehydrate(serverClient, {
+      shouldDehydrateQuery: queryInfo => queryInfo.state.status === 'pending',
+    })
+
+    // The client retries by default, the server retried already
+    const clientClient = createQueryClient()
+    hydrate(clientClient, dehydrated)
+
+    await expect(
+      clientClient.fetchQuery({ query: failedQuery })
+    ).rejects.toThrow('failed')
+    expect(clientClient.getQueryState({ query: failedQuery })?.status).toBe(
+      'error'
+    )
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    serverClient.clear()
+    clientClient.clear()
+  })
+
+  it('should redact the errors with redactErrors', async () => {
+    const serverClient = createQueryClient()
+    const failedQuery = query({
+      key: 'redacted',
+      fetcher: (): Promise<string> =>
+        Promise.reject(new Error('connect ECONNREFUSED 10.0.0.1:5432')),
+    })
+
+    await serverClient.prefetchQuery({ query: failedQuery, retry: false })
+
+    const dehydrated = dehydrate(serverClient, {
+      shouldDehydrateQuery: shouldDehydrateQueryWithErrors,
+      redactErrors: () => new Error('Something went wrong'),
+      serializeData: toTaggedJson,
+    })
+
+    expect(JSON.stringify(dehydrated)).not.toContain('ECONNREFUSED')
+
+    const clientClient = createQueryClient()
+    hydrate(clientClient, JSON.parse(JSON.stringify(dehydrated)), {
+      deserializeData: fromTaggedJson,
+    })
+
+    expect(
+      clientClient.getQueryState({ query: failedQuery })?.error?.message
+    ).toBe('Something went wrong')
+
+    serverClient.clear()
+    clientClient.clear()
+  })
 })
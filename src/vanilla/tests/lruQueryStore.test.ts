@@ -0,0 +1,175 @@
+import {
+  createLruQueryStore,
+  createQueryCache,
+  createQueryClient,
+  query,
+} from '..'
+import type { QueryClient } from '..'
+import { createObservableQuery } from '../observableQuery'
+import { generatekey } from '../utils'
+import { sleep } from './utils'
+
+describe('createLruQueryStore', () => {
+  let queryClient: QueryClient
+
+  const anQuery = query({
+    key: generatekey(),
+    fetcher: (id: number) => Promise.resolve(`data ${id}`),
+    gcTime: Infinity,
+  })
+
+  const setup = (options: Parameters<typeof createLruQueryStore>[0]) => {
+    queryClient = createQueryClient({
+      queryCache: createQueryCache({
+        createStore: () => createLruQueryStore(options),
+      }),
+    })
+    queryClient.mount()
+  }
+
+  const getCachedIds = () =>
+    queryClient
+      .getQueryCache()
+      .getAll()
+      .map(queryInfo => queryInfo.variables)
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should evict the least recently used queries over maxEntries', async () => {
+    setup({ maxEntries: 2 })
+
+    await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+    // Using the first query makes the second one the least recently used
+    await queryClient.fetchQuery({ query: anQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 3 })
+
+    expect(getCachedIds()).toEqual([1, 3])
+  })
+
+  it('should emit removed events for evicted queries', async () => {
+    setup({ maxEntries: 1 })
+
+    const removed: unknown[] = []
+    const unsubscribe = queryClient.getQueryCache().subscribe(event => {
+      if (event.type === 'removed') {
+        removed.push(event.queryInfo.variables)
+      }
+    })
+
+    await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+
+    expect(removed).toEqual([1])
+
+    unsubscribe()
+  })
+
+  it('should never evict queries with observers', async () => {
+    setup({ maxEntries: 1 })
+
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      variables: 1,
+    })
+    const unsubscribe = observer.subscribe(() => {})
+    await sleep(0)
+
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 3 })
+
+    expect(getCachedIds()).toEqual([1, 3])
+
+    unsubscribe()
+  })
+
+  it('should evict queries over maxBytes as measured by sizeOf', async () => {
+    setup({
+      maxBytes: 10,
+      sizeOf: queryInfo => String(queryInfo.state.data ?? '').length,
+    })
+
+    await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+
+    expect(getCachedIds()).toEqual([2])
+
+    queryClient.setQueryData({ query: anQuery, variables: 2 }, 'ok')
+    await queryClient.prefetchQuery({ query: anQuery, variables: 3 })
+
+    expect(getCachedIds()).toEqual([2, 3])
+  })
+
+  it('should evict a query once it loses its observers', async () => {
+    setup({ maxEntries: 1 })
+
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      variables: 1,
+    })
+    const unsubscribe = observer.subscribe(() => {})
+    await sleep(0)
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+
+    expect(getCachedIds()).toEqual([1, 2])
+
+    unsubscribe()
+    await sleep(0)
+
+    expect(getCachedIds()).toEqual([2])
+  })
+
+  it('should evict queries once a fetch fails', async () => {
+    setup({ maxEntries: 1 })
+
+    const failingQuery = query({
+      key: generatekey(),
+      fetcher: async (_id: number): Promise<string> => {
+        await sleep(10)
+        throw new Error('failed')
+      },
+      gcTime: Infinity,
+      retry: false,
+    })
+
+    const promise = queryClient.prefetchQuery({
+      query: failingQuery,
+      variables: 1,
+    })
+    // The failing query is not evicted while it is fetching
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+
+    expect(getCachedIds()).toEqual([1, 2])
+
+    await promise
+
+    expect(getCachedIds()).toEqual([2])
+  })
+  it('should measure a streamed query once its stream ends', async () => {
+    const measured: unknown[] = []
+
+    setup({
+      maxBytes: 100,
+      sizeOf: queryInfo => {
+        measured.push(queryInfo.state.data)
+        return 0
+      },
+    })
+
+    const streamedQuery = query({
+      key: generatekey(),
+      fetcher: async function* () {
+        for (let i = 1; i <= 3; i++) {
+          await sleep(10)
+          yield i
+        }
+      },
+    })
+
+    await queryClient.prefetchQuery({ query: streamedQuery })
+
+    expect(measured).toEqual([undefined, [1, 2, 3]])
+  })
+})
@@ -1,7 +1,16 @@
 import { waitFor } from '@testing-library/react'
 import { vi } from 'vitest'
 
-import { createMutationCache, createQueryClient, mutation } from '..'
+import {
+  type Query,
+  type QueryClient,
+  createMutationCache,
+  createQueryClient,
+  mutation,
+  query,
+} from '..'
+import { createObservableQuery } from '../observableQuery'
+import { generatekey } from '../utils'
 import { executeMutation, sleep } from './utils'
 
 describe('mutationCache', () => {
@@ -157,6 +166,292 @@ describe('mutationCache', () => {
     })
   })
 
+  describe('MutationCacheConfig onMutate', () => {
+    it('should be called before the mutation onMutate', async () => {
+      const calls: Array<string> = []
+      const onMutate = vi.fn(() => {
+        calls.push('cache')
+      })
+      const testCache = createMutationCache({ onMutate })
+      const testClient = createQueryClient({ mutationCache: testCache })
+      const anMutation = mutation({
+        fetcher: (text: string) => {
+          calls.push('fetcher')
+          return Promise.resolve(text)
+        },
+        onMutate: () => {
+          calls.push('mutation')
+          return 'context'
+        },
+      })
+
+      await executeMutation(testClient, { mutation: anMutation }, 'vars')
+
+      const mutationInfo = testCache.getAll()[0]
+      expect(onMutate).toHaveBeenCalledWith('vars', mutationInfo)
+      expect(calls).toEqual(['cache', 'mutation', 'fetcher'])
+      expect(mutationInfo?.state.context).toBe('context')
+    })
+  })
+
+  describe('scope', () => {
+    it('should run mutations of the same scope one after another', async () => {
+      const testClient = createQueryClient()
+      const calls: Array<string> = []
+      const anMutation = mutation({
+        fetcher: async (text: string) => {
+          calls.push(`start ${text}`)
+          await sleep(10)
+          calls.push(`end ${text}`)
+          return text
+        },
+        scope: 'todos',
+      })
+
+      const first = executeMutation(testClient, { mutation: anMutation }, '1')
+      const second = executeMutation(testClient, { mutation: anMutation }, '2')
+
+      await sleep(0)
+
+      const [firstMutationInfo, secondMutationInfo] = testClient
+        .getMutationCache()
+        .getAll()
+      expect(firstMutationInfo?.state.status).toBe('mutating')
+      expect(secondMutationInfo?.state.status).toBe('queued')
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['1', '2'])
+      expect(calls).toEqual(['start 1', 'end 1', 'start 2', 'end 2'])
+      expect(secondMutationInfo?.state.status).toBe('success')
+    })
+
+    it('should run mutations of different scopes in parallel', async () => {
+      const testClient = createQueryClient()
+      const calls: Array<string> = []
+      const anMutation = mutation({
+        fetcher: async (id: number) => {
+          calls.push(`start ${id}`)
+          await sleep(10)
+          calls.push(`end ${id}`)
+          return id
+        },
+        scope: id => `order-${id}`,
+      })
+
+      await Promise.all([
+        executeMutation(testClient, { mutation: anMutation }, 1),
+        executeMutation(testClient, { mutation: anMutation }, 2),
+        executeMutation(testClient, { mutation: anMutation }, 1),
+      ])
+
+      expect(calls.slice(0, 2)).toEqual(['start 1', 'start 2'])
+      expect(calls.lastIndexOf('start 1')).toBeGreaterThan(
+        calls.indexOf('end 1')
+      )
+    })
+
+    it('should start the next mutation when the previous one fails', async () => {
+      const testClient = createQueryClient()
+      const anMutation = mutation({
+        fetcher: async (text: string) => {
+          await sleep(10)
+          if (text === 'error') {
+            throw new Error('error')
+          }
+          return text
+        },
+        scope: 'todos',
+      })
+
+      const first = executeMutation(
+        testClient,
+        { mutation: anMutation },
+        'error'
+      )
+      const second = executeMutation(testClient, { mutation: anMutation }, '2')
+
+      await expect(first).rejects.toEqual(new Error('error'))
+      await expect(second).resolves.toBe('2')
+    })
+
+    it('should not queue behind the mutations of a cleared cache', async () => {
+      const testClient = createQueryClient()
+      const anMutation = mutation({
+        fetcher: (text: string) =>
+          text === 'pending'
+            ? new Promise<string>(() => undefined)
+            : Promise.resolve(text),
+        scope: 'todos',
+      })
+
+      executeMutation(testClient, { mutation: anMutation }, 'pending')
+      testClient.getMutationCache().clear()
+
+      await expect(
+        executeMutation(testClient, { mutation: anMutation }, '2')
+      ).resolves.toBe('2')
+    })
+  })
+
+  describe('invalidates', () => {
+    const setup = () => {
+      const testClient = createQueryClient()
+      const todosQuery = query({
+        key: generatekey(),
+        fetcher: (page: number) => Promise.resolve(`todos ${page}`),
+      })
+      const todoQuery = query({
+        key: generatekey(),
+        fetcher: (id: number) => Promise.resolve(`todo ${id}`),
+      })
+
+      return { testClient, todosQuery, todoQuery }
+    }
+
+    const isInvalidated = (
+      testClient: QueryClient,
+      anQuery: Query<string, number, Error>,
+      variables: number
+    ) => testClient.getQueryState({ query: anQuery, variables })?.isInvalidated
+
+    it('should invalidate every variables of the listed queries after onSuccess', async () => {
+      const { testClient, todosQuery, todoQuery } = setup()
+      await testClient.prefetchQuery({ query: todosQuery, variables: 1 })
+      await testClient.prefetchQuery({ query: todosQuery, variables: 2 })
+      await testClient.prefetchQuery({ query: todoQuery, variables: 1 })
+
+      const states: Array<boolean | undefined> = []
+      const anMutation = mutation({
+        fetcher: (_: string) => Promise.resolve(),
+        onSuccess: () => {
+          states.push(isInvalidated(testClient, todosQuery, 1))
+        },
+        invalidates: [todosQuery],
+      })
+
+      await testClient.triggerMutation({
+        mutation: anMutation,
+        variables: 'vars',
+      })
+
+      expect(states).toEqual([false])
+      expect(isInvalidated(testClient, todosQuery, 1)).toBe(true)
+      expect(isInvalidated(testClient, todosQuery, 2)).toBe(true)
+      expect(isInvalidated(testClient, todoQuery, 1)).toBe(false)
+
+      testClient.clear()
+    })
+
+    it('should invalidate the filters returned for the mutation result', async () => {
+      const { testClient, todosQuery, todoQuery } = setup()
+      await testClient.prefetchQuery({ query: todoQuery, variables: 1 })
+      await testClient.prefetchQuery({ query: todoQuery, variables: 2 })
+
+      const invalidates = vi.fn((data: number, _variables: string) => [
+        { query: todoQuery, variables: data, exact: true },
+      ])
+      const anMutation = mutation({
+        fetcher: (_: string) => Promise.resolve(2),
+        invalidates,
+      })
+
+      await testClient.triggerMutation({
+        mutation: anMutation,
+        variables: 'vars',
+      })
+
+      expect(invalidates).toHaveBeenCalledWith(2, 'vars')
+      expect(isInvalidated(testClient, todoQuery, 1)).toBe(false)
+      expect(isInvalidated(testClient, todoQuery, 2)).toBe(true)
+      expect(testClient.getQueryCache().find({ query: todosQuery })).toBe(
+        undefined
+      )
+
+      testClient.clear()
+    })
+
+    it('should respect the refetchType of each entry', async () => {
+      const { testClient, todosQuery, todoQuery } = setup()
+      const todosFetcher = vi.fn(() => Promise.resolve('todos'))
+      const todoFetcher = vi.fn(() => Promise.resolve('todo'))
+      const observedTodos = query({
+        key: todosQuery.key,
+        fetcher: todosFetcher,
+      })
+      const observedTodo = query({ key: todoQuery.key, fetcher: todoFetcher })
+
+      const unsubscribe1 = createObservableQuery(testClient, {
+        query: observedTodos,
+      }).subscribe(() => {})
+      const unsubscribe2 = createObservableQuery(testClient, {
+        query: observedTodo,
+      }).subscribe(() => {})
+      await sleep(0)
+
+      const anMutation = mutation({
+        fetcher: (_: string) => Promise.resolve(),
+        invalidates: [
+          { query: observedTodos },
+          { query: observedTodo, refetchType: 'none' },
+        ],
+      })
+
+      await testClient.triggerMutation({
+        mutation: anMutation,
+        variables: 'vars',
+      })
+
+      expect(todosFetcher).toHaveBeenCalledTimes(2)
+      expect(todoFetcher).toHaveBeenCalledTimes(1)
+
+      unsubscribe1()
+      unsubscribe2()
+      testClient.clear()
+    })
+
+    it('should invalidate the queries carrying the invalidated tags', async () => {
+      const testClient = createQueryClient()
+      const todoQuery = query({
+        key: generatekey(),
+        fetcher: (id: number) => Promise.resolve({ id }),
+        tags: todo => [{ type: 'Todo', id: todo.id }],
+      })
+      await testClient.prefetchQuery({ query: todoQuery, variables: 1 })
+      await testClient.prefetchQuery({ query: todoQuery, variables: 2 })
+
+      const anMutation = mutation({
+        fetcher: (id: number) => Promise.resolve({ id }),
+        invalidatesTags: (todo: { id: number }) => [
+          { type: 'Todo', id: todo.id },
+        ],
+      })
+
+      await testClient.triggerMutation({ mutation: anMutation, variables: 2 })
+
+      expect(isInvalidated(testClient, todoQuery as any, 1)).toBe(false)
+      expect(isInvalidated(testClient, todoQuery as any, 2)).toBe(true)
+
+      testClient.clear()
+    })
+
+    it('should not invalidate anything when the mutation fails', async () => {
+      const { testClient, todosQuery } = setup()
+      await testClient.prefetchQuery({ query: todosQuery, variables: 1 })
+
+      const anMutation = mutation({
+        fetcher: (_: string) => Promise.reject(new Error('error')),
+        invalidates: [todosQuery],
+      })
+
+      await expect(
+        testClient.triggerMutation({ mutation: anMutation, variables: 'vars' })
+      ).rejects.toThrow('error')
+
+      expect(isInvalidated(testClient, todosQuery, 1)).toBe(false)
+
+      testClient.clear()
+    })
+  })
+
   describe('find', () => {
     it('should filter correctly', async () => {
       const anMutation = mutation({
@@ -341,4 +636,17 @@ describe('mutationCache', () => {
       expect(onSuccess).toHaveBeenCalledTimes(1)
     })
   })
+
+  it('should give each mutation its own id', () => {
+    const queryClient = createQueryClient()
+    const anMutation = mutation({ fetcher: async () => 'data' })
+    const mutationCache = queryClient.getMutationCache()
+
+    const first = mutationCache.build(queryClient, { mutation: anMutation })
+    const second = mutationCache.build(queryClient, { mutation: anMutation })
+
+    expect(first.mutationId).not.toBe(second.mutationId)
+
+    queryClient.clear()
+  })
 })
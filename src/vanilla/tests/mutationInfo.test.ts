@@ -1,5 +1,8 @@
-import { type QueryClient, createQueryClient, mutation } from '..'
-import { type MutationInfoState } from '../mutationInfo'
+import { vi } from 'vitest'
+
+import { type QueryClient, createQueryClient, mutation, query } from '..'
+import { type MutationInfoState, getDefaultState } from '../mutationInfo'
+import { CancelledError } from '../retryer'
 import { sleep } from './utils'
 
 describe('mutations', () => {
@@ -50,6 +53,8 @@ describe('mutations', () => {
       error: null,
       variables: undefined,
       status: 'idle',
+      failureCount: 0,
+      failureReason: null,
     })
 
     const states: Array<MutationInfoState<string, string>> = []
@@ -67,6 +72,8 @@ describe('mutations', () => {
       error: null,
       status: 'mutating',
       variables: 'todo',
+      failureCount: 0,
+      failureReason: null,
     })
 
     await sleep(20)
@@ -76,6 +83,8 @@ describe('mutations', () => {
       error: null,
       status: 'success',
       variables: 'todo',
+      failureCount: 0,
+      failureReason: null,
     })
   })
 
@@ -108,15 +117,284 @@ describe('mutations', () => {
       error: null,
       status: 'mutating',
       variables: 'todo',
+      failureCount: 0,
+      failureReason: null,
     })
 
     await sleep(60)
 
     expect(states[1]).toEqual({
+      data: undefined,
+      error: null,
+      status: 'mutating',
+      variables: 'todo',
+      failureCount: 1,
+      failureReason: new Error('err'),
+    })
+
+    expect(states[2]).toEqual({
       data: undefined,
       error: new Error('err'),
       status: 'error',
       variables: 'todo',
+      failureCount: 2,
+      failureReason: new Error('err'),
+    })
+  })
+
+  it('should keep the onMutate result as context and pass it to callbacks', async () => {
+    const onSuccess = vi.fn()
+    const onSettled = vi.fn()
+    const anMutation = mutation({
+      fetcher: async (text: string) => text,
+      onMutate: text => ({ previous: `before ${text}` }),
+      onSuccess,
+      onSettled,
+    })
+
+    const mutationInfo = queryClient.getMutationCache().build(queryClient, {
+      mutation: anMutation,
+    })
+
+    await mutationInfo.trigger('todo')
+
+    expect(mutationInfo.state.context).toEqual({ previous: 'before todo' })
+    expect(onSuccess).toHaveBeenCalledWith('todo', 'todo', mutationInfo, {
+      previous: 'before todo',
+    })
+    expect(onSettled).toHaveBeenCalledWith('todo', null, 'todo', mutationInfo, {
+      previous: 'before todo',
+    })
+  })
+
+  it('should be able to roll back optimistic updates with the context', async () => {
+    const todosQuery = query({
+      key: 'todos',
+      fetcher: async () => ['first'],
+    })
+    queryClient.setQueryData({ query: todosQuery }, ['first'])
+
+    const anMutation = mutation({
+      fetcher: async (_: string) => {
+        await sleep(10)
+        return Promise.reject(new Error('err'))
+      },
+      onMutate: async todo => {
+        const previous = queryClient.getQueryData({ query: todosQuery })
+        queryClient.setQueryData({ query: todosQuery }, todos => [
+          ...(todos ?? []),
+          todo,
+        ])
+        return { previous }
+      },
+      onError: (_error, _variables, _mutationInfo, context) => {
+        queryClient.setQueryData({ query: todosQuery }, context!.previous)
+      },
+    })
+
+    const mutationInfo = queryClient.getMutationCache().build(queryClient, {
+      mutation: anMutation,
+    })
+
+    const promise = mutationInfo.trigger('second').catch(() => undefined)
+
+    await sleep(0)
+
+    expect(queryClient.getQueryData({ query: todosQuery })).toEqual([
+      'first',
+      'second',
+    ])
+
+    await promise
+
+    expect(queryClient.getQueryData({ query: todosQuery })).toEqual(['first'])
+  })
+
+  it('should treat a throwing onMutate as a failed mutation', async () => {
+    const fetcher = vi.fn(async (text: string) => text)
+    const onError = vi.fn()
+    const anMutation = mutation({
+      fetcher,
+      onMutate: () => {
+        throw new Error('onMutate')
+      },
+      onError,
+    })
+
+    const mutationInfo = queryClient.getMutationCache().build(queryClient, {
+      mutation: anMutation,
+    })
+
+    await expect(mutationInfo.trigger('todo')).rejects.toEqual(
+      new Error('onMutate')
+    )
+
+    expect(fetcher).not.toHaveBeenCalled()
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(mutationInfo.state.status).toBe('error')
+  })
+
+  it('should abort the signal and set the cancelled status when cancelled', async () => {
+    let signal: AbortSignal | undefined
+    const onError = vi.fn()
+    const onSettled = vi.fn()
+    const anMutation = mutation({
+      fetcher: async (text: string, context) => {
+        signal = context.signal
+        await sleep(20)
+        return text
+      },
+      onMutate: () => 'snapshot',
+      onError,
+      onSettled,
+    })
+
+    const mutationInfo = queryClient.getMutationCache().build(queryClient, {
+      mutation: anMutation,
+    })
+
+    const promise = mutationInfo.trigger('todo')
+    await sleep(0)
+
+    await mutationInfo.cancel()
+
+    await expect(promise).rejects.toBeInstanceOf(CancelledError)
+    expect(signal?.aborted).toBe(true)
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(CancelledError),
+      'todo',
+      mutationInfo,
+      'snapshot'
+    )
+    expect(onSettled).toHaveBeenCalledTimes(1)
+    expect(mutationInfo.state).toMatchObject({
+      status: 'cancelled',
+      data: undefined,
+      error: null,
+    })
+  })
+
+  it('should not run a mutation cancelled while it is queued', async () => {
+    const fetcher = vi.fn(async (text: string) => {
+      await sleep(10)
+      return text
+    })
+    const anMutation = mutation({ fetcher, scope: 'todos' })
+    const mutationCache = queryClient.getMutationCache()
+
+    const first = mutationCache.build(queryClient, { mutation: anMutation })
+    const second = mutationCache.build(queryClient, { mutation: anMutation })
+
+    const firstPromise = first.trigger('first')
+    const secondPromise = second.trigger('second')
+    await sleep(0)
+
+    expect(second.state.status).toBe('queued')
+
+    second.cancel()
+
+    await expect(firstPromise).resolves.toBe('first')
+    await expect(secondPromise).rejects.toBeInstanceOf(CancelledError)
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(second.state.status).toBe('cancelled')
+  })
+
+  it('should reject a queued mutation as soon as it is cancelled', async () => {
+    const anMutation = mutation({
+      fetcher: async (text: string) => {
+        await sleep(20)
+        return text
+      },
+      scope: 'todos',
+    })
+    const mutationCache = queryClient.getMutationCache()
+
+    const first = mutationCache.build(queryClient, { mutation: anMutation })
+    const second = mutationCache.build(queryClient, { mutation: anMutation })
+
+    first.trigger('first')
+    const secondPromise = second.trigger('second')
+    await sleep(0)
+
+    second.cancel()
+
+    await expect(secondPromise).rejects.toBeInstanceOf(CancelledError)
+    expect(first.state.status).toBe('mutating')
+    expect(second.state.status).toBe('cancelled')
+  })
+
+  it('should not resume a restored mutation once cancelled', async () => {
+    const fetcher = vi.fn(async (text: string) => text)
+    const anMutation = mutation({ key: 'restored', fetcher })
+    const mutationInfo = queryClient.getMutationCache().build(
+      queryClient,
+      { mutation: anMutation },
+      {
+        ...getDefaultState<string, string, Error, unknown>(),
+        status: 'mutating',
+        variables: 'todo',
+      }
+    )
+
+    await mutationInfo.cancel()
+
+    expect(mutationInfo.state.status).toBe('cancelled')
+
+    await queryClient.resumePausedMutations()
+
+    expect(fetcher).not.toHaveBeenCalled()
+    expect(mutationInfo.state.status).toBe('cancelled')
+  })
+
+  it('should not wait for the mutations in flight when resuming', async () => {
+    const fetcher = vi.fn(async (text: string) => text)
+    const anMutation = mutation({ key: 'resumed', fetcher })
+    const mutationCache = queryClient.getMutationCache()
+
+    const inFlight = mutationCache.build(queryClient, {
+      mutation: anMutation,
+      onMutate: () => sleep(50),
+    })
+    const restored = mutationCache.build(
+      queryClient,
+      { mutation: anMutation },
+      {
+        ...getDefaultState<string, string, Error, unknown>(),
+        status: 'mutating',
+        variables: 'restored',
+      }
+    )
+
+    const promise = inFlight.trigger('in flight')
+    await queryClient.resumePausedMutations()
+
+    expect(inFlight.state.status).toBe('mutating')
+    expect(restored.state).toMatchObject({
+      status: 'success',
+      data: 'restored',
+    })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    await promise
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not change a settled mutation when cancelled', async () => {
+    const anMutation = mutation({
+      fetcher: async (text: string) => text,
+    })
+
+    const mutationInfo = queryClient.getMutationCache().build(queryClient, {
+      mutation: anMutation,
+    })
+
+    await mutationInfo.trigger('todo')
+    await mutationInfo.cancel()
+
+    expect(mutationInfo.state).toMatchObject({
+      status: 'success',
+      data: 'todo',
     })
   })
 })
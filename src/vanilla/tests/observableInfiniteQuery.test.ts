@@ -4,7 +4,7 @@ import { createQueryClient, queryWithInfinite } from '..'
 import type { QueryClient } from '..'
 import { createObservableInfiniteQuery } from '../observableInfiniteQuery'
 import { generatekey } from '../utils'
-import { sleep } from './utils'
+import { expectType, sleep } from './utils'
 
 describe('ObservableInfiniteQuery', () => {
   let queryClient: QueryClient
@@ -169,4 +169,59 @@ describe('ObservableInfiniteQuery', () => {
     expect(queryFn).toBeCalledTimes(3)
     expect(observer.getCurrentResult().hasNextPage).toBe(false)
   })
+
+  it('should support string cursors as page params', async () => {
+    const cursors: Array<string> = []
+    const anQuery = queryWithInfinite({
+      key: generatekey(),
+      fetcher: (_: void, { pageParam }) => {
+        expectType<string>(pageParam)
+        cursors.push(pageParam)
+        return { items: [pageParam], next: `${pageParam}>` }
+      },
+      initialPageParam: 'start',
+      getNextPageParam: lastPage => lastPage.next,
+    })
+    const observer = createObservableInfiniteQuery(queryClient, {
+      query: anQuery,
+    })
+
+    await observer.fetchNextPage()
+    await observer.fetchNextPage()
+
+    const data = queryClient.getQueryData({ query: anQuery })
+    expectType<Array<string> | undefined>(data?.pageParams)
+    expect(data?.pageParams).toEqual(['start', 'start>'])
+    expect(observer.getCurrentResult().data).toBe(data)
+    expect(cursors).toEqual(['start', 'start>'])
+  })
+
+  it('should support object cursors as page params', async () => {
+    type Cursor = { after?: number; before?: number }
+    const anQuery = queryWithInfinite({
+      key: generatekey(),
+      fetcher: (_: void, { pageParam }: { pageParam: Cursor }) =>
+        pageParam.after ?? -(pageParam.before ?? 0),
+      initialPageParam: { after: 0 } as Cursor,
+      getNextPageParam: (_, __, lastPageParam) => ({
+        after: (lastPageParam.after ?? 0) + 1,
+      }),
+      getPreviousPageParam: (_, __, firstPageParam) =>
+        firstPageParam.before === 1 ? undefined : { before: 1 },
+    })
+    const observer = createObservableInfiniteQuery(queryClient, {
+      query: anQuery,
+    })
+
+    await observer.fetchNextPage()
+    await observer.fetchNextPage()
+    await observer.fetchPreviousPage()
+
+    const result = observer.getCurrentResult()
+    expect(result.data).toEqual({
+      pages: [-1, 0, 1],
+      pageParams: [{ before: 1 }, { after: 0 }, { after: 1 }],
+    })
+    expect(result.hasPreviousPage).toBe(false)
+  })
 })
@@ -0,0 +1,171 @@
+import { vi } from 'vitest'
+
+import { type QueryClient, createQueryClient, mutation } from '..'
+import {
+  ObservableMutationResult,
+  createObservableMutation,
+} from '../observableMutation'
+import { sleep } from './utils'
+
+describe('observableMutation', () => {
+  let queryClient: QueryClient
+
+  const anMutation = mutation({
+    fetcher: async (text: string) => {
+      await sleep(10)
+      return text.toUpperCase()
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+    queryClient.mount()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should notify the state of the triggered mutation', async () => {
+    const observer = createObservableMutation(queryClient, {
+      mutation: anMutation,
+    })
+    const results: Array<ObservableMutationResult<string, string>> = []
+    const unsubscribe = observer.subscribe(result => {
+      results.push(result)
+    })
+
+    expect(observer.getCurrentResult()).toMatchObject({
+      data: undefined,
+      isMutating: false,
+    })
+
+    await expect(observer.trigger('todo')).resolves.toBe('TODO')
+
+    expect(results.at(0)).toMatchObject({
+      isMutating: true,
+      variables: 'todo',
+    })
+    expect(observer.getCurrentResult()).toMatchObject({
+      data: 'TODO',
+      isMutating: false,
+      variables: 'todo',
+    })
+    expect(observer.getCurrentResult()).toBe(results.at(-1))
+
+    unsubscribe()
+  })
+
+  it('should call the trigger callbacks after those of the options', async () => {
+    const calls: string[] = []
+    const observer = createObservableMutation(queryClient, {
+      mutation: anMutation,
+      onSuccess: () => {
+        calls.push('options')
+      },
+    })
+
+    await observer.trigger('todo', {
+      onSuccess: data => {
+        calls.push(`trigger ${data}`)
+      },
+      onSettled: () => {
+        calls.push('trigger settled')
+      },
+    })
+
+    expect(calls).toEqual(['options', 'trigger TODO', 'trigger settled'])
+  })
+
+  it('should track the last triggered mutation only', async () => {
+    const observer = createObservableMutation(queryClient, {
+      mutation: anMutation,
+    })
+    const unsubscribe = observer.subscribe(() => {})
+
+    const first = observer.trigger('first')
+    const second = observer.trigger('second')
+    await Promise.all([first, second])
+
+    expect(observer.getCurrentResult().data).toBe('SECOND')
+    expect(queryClient.getMutationCache().getAll()).toHaveLength(2)
+
+    unsubscribe()
+  })
+
+  it('should reset to the default state', async () => {
+    const observer = createObservableMutation(queryClient, {
+      mutation: anMutation,
+    })
+    const listener = vi.fn()
+    const unsubscribe = observer.subscribe(listener)
+
+    await observer.trigger('todo')
+    listener.mockClear()
+
+    observer.reset()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(observer.getCurrentResult()).toMatchObject({
+      data: undefined,
+      variables: undefined,
+    })
+    expect(observer.getCurrentMutationInfo()).toBeUndefined()
+
+    unsubscribe()
+  })
+
+  it('should use the latest options for the current and next mutations', async () => {
+    const onSuccess = vi.fn()
+    const observer = createObservableMutation(queryClient, {
+      mutation: anMutation,
+    })
+
+    const promise = observer.trigger('first')
+    observer.setOptions({ mutation: anMutation, onSuccess })
+    await promise
+    await observer.trigger('second')
+
+    expect(onSuccess).toHaveBeenCalledTimes(2)
+  })
+
+  it('should let the mutation be garbage collected once unsubscribed', async () => {
+    const observer = createObservableMutation(queryClient, {
+      mutation: anMutation,
+      gcTime: 10,
+    })
+    const unsubscribe = observer.subscribe(() => {})
+
+    await observer.trigger('todo')
+    await sleep(20)
+
+    expect(queryClient.getMutationCache().getAll()).toHaveLength(1)
+
+    unsubscribe()
+    await sleep(20)
+
+    expect(queryClient.getMutationCache().getAll()).toHaveLength(0)
+  })
+
+  it('should not keep a mutation triggered without listeners', async () => {
+    const observer = createObservableMutation(queryClient, {
+      mutation: anMutation,
+      gcTime: 10,
+    })
+
+    const promise = observer.trigger('todo')
+
+    expect(observer.getCurrentResult()).toMatchObject({ isMutating: true })
+
+    await promise
+
+    expect(observer.getCurrentResult()).toMatchObject({
+      data: 'TODO',
+      isMutating: false,
+    })
+
+    await sleep(20)
+
+    expect(queryClient.getMutationCache().getAll()).toHaveLength(0)
+  })
+})
@@ -391,6 +391,64 @@ describe('observableQuery', () => {
     expect(observerResult1.data).toBe(observerResult2.data)
   })
 
+  it('should not run the selector again for repeated optimistic results', async () => {
+    const select = vi.fn((data: { count: number }) => ({ myCount: data.count }))
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: (count: number) => ({ count }),
+    })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      variables: 1,
+      select,
+      staleTime: Infinity,
+    })
+    const unsubscribe = observer.subscribe(() => undefined)
+    select.mockClear()
+
+    // As rendered with new variables before the options are set
+    const options = queryClient.defaultQueryOptions({
+      query: anQuery,
+      variables: 2,
+      select,
+      staleTime: Infinity,
+    })
+    const result1 = observer.getOptimisticResult(options)
+    const result2 = observer.getOptimisticResult(options)
+
+    expect(select).toHaveBeenCalledTimes(1)
+    expect(result1.data).toEqual({ myCount: 2 })
+    expect(result2.data).toBe(result1.data)
+
+    unsubscribe()
+  })
+
+  it('should keep the selected data when the derived value did not change', async () => {
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => ({ todos: ['a'], updatedAt: Date.now() }),
+    })
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      select: data => ({ todos: data.todos }),
+    })
+    const unsubscribe = observer.subscribe(() => undefined)
+    await sleep(1)
+    const prevData = observer.getCurrentResult().data
+
+    queryClient.setQueryData({ query: anQuery }, data => ({
+      ...data!,
+      updatedAt: data!.updatedAt + 1,
+    }))
+
+    expect(observer.getCurrentResult().data).toBe(prevData)
+
+    unsubscribe()
+  })
+
   it('should not trigger a fetch when subscribed and disabled', async () => {
     const queryFn = vi.fn<Array<unknown>, string>().mockReturnValue('data')
     const anQuery = query({
@@ -513,6 +571,71 @@ describe('observableQuery', () => {
     expect(count).toBe(2)
   })
 
+  it('should expose the failure count and reason while retrying', async () => {
+    let count = 0
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => {
+        count++
+        return count < 3
+          ? Promise.reject(new Error(`error ${count}`))
+          : Promise.resolve('data')
+      },
+    })
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      retry: 3,
+      retryDelay: 10,
+    })
+    const results: Array<ObservableQueryResult<unknown>> = []
+    const unsubscribe = observer.subscribe(result => {
+      results.push(result)
+    })
+
+    await sleep(5)
+    expect(observer.getCurrentResult()).toMatchObject({
+      failureCount: 1,
+      failureReason: new Error('error 1'),
+      isFetching: true,
+    })
+
+    await sleep(30)
+    expect(observer.getCurrentResult()).toMatchObject({
+      data: 'data',
+      failureCount: 0,
+      failureReason: null,
+    })
+    expect(results.map(result => result.failureCount)).toEqual([0, 1, 2, 0])
+
+    unsubscribe()
+  })
+
+  it('should reset the failure count when the next fetch starts', async () => {
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => Promise.reject(new Error('error')),
+    })
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      retry: false,
+    })
+
+    await observer.refetch()
+    expect(observer.getCurrentResult()).toMatchObject({
+      failureCount: 1,
+      failureReason: new Error('error'),
+    })
+
+    const promise = observer.refetch()
+    expect(
+      queryClient.getQueryCache().find({ query: anQuery })?.state
+    ).toMatchObject({
+      fetchFailureCount: 0,
+      fetchFailureReason: null,
+    })
+    await promise
+  })
+
   it('should clear interval when unsubscribing to a refetchInterval query', async () => {
     let count = 0
 
@@ -0,0 +1,367 @@
+import { vi } from 'vitest'
+
+import {
+  PersistedClient,
+  Persister,
+  persistQueryClient,
+  persistQueryClientRestore,
+  persistQueryClientSave,
+} from '../persistQueryClient'
+import { query } from '../query'
+import { createQueryClient } from '../queryClient'
+import { PersistStorage, createStoragePersister } from '../storagePersister'
+import { sleep } from './utils'
+
+const createMemoryStorage = (): PersistStorage & {
+  entries: Map<string, string>
+} => {
+  const entries = new Map<string, string>()
+
+  return {
+    entries,
+    getItem: key => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value)
+    },
+    removeItem: key => {
+      entries.delete(key)
+    },
+  }
+}
+
+const createAsyncMemoryStorage = (): PersistStorage & {
+  entries: Map<string, string>
+} => {
+  const storage = createMemoryStorage()
+
+  return {
+    entries: storage.entries,
+    getItem: async key => {
+      await sleep(1)
+      return storage.getItem(key)
+    },
+    setItem: async (key, value) => {
+      await sleep(1)
+      storage.setItem(key, value)
+    },
+    removeItem: async key => {
+      await sleep(1)
+      storage.removeItem(key)
+    },
+  }
+}
+
+const createMockPersister = (): Persister & {
+  persistedClient?: PersistedClient
+} => {
+  const persister: Persister & { persistedClient?: PersistedClient } = {
+    persistClient(persistedClient) {
+      persister.persistedClient = persistedClient
+    },
+    restoreClient() {
+      return persister.persistedClient
+    },
+    removeClient() {
+      persister.persistedClient = undefined
+    },
+  }
+
+  return persister
+}
+
+describe('persistQueryClient', () => {
+  it('should restore persisted queries into a new client', async () => {
+    const storage = createMemoryStorage()
+    const persister = createStoragePersister({ storage, throttleTime: 0 })
+    const anQuery = query({
+      key: 'persisted',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    const queryClient = createQueryClient()
+    await queryClient.prefetchQuery({ query: anQuery })
+    await persistQueryClientSave({ queryClient, persister })
+    await sleep(1)
+
+    expect(storage.entries.size).toBe(1)
+
+    const restoredClient = createQueryClient()
+    await persistQueryClientRestore({ queryClient: restoredClient, persister })
+
+    expect(restoredClient.getQueryData({ query: anQuery })).toBe('data')
+
+    queryClient.clear()
+    restoredClient.clear()
+  })
+
+  it('should work with async storages', async () => {
+    const storage = createAsyncMemoryStorage()
+    const persister = createStoragePersister({ storage, throttleTime: 0 })
+    const anQuery = query({
+      key: 'async',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    const queryClient = createQueryClient()
+    await queryClient.prefetchQuery({ query: anQuery })
+    await persistQueryClientSave({ queryClient, persister })
+    await sleep(10)
+
+    const restoredClient = createQueryClient()
+    await persistQueryClientRestore({ queryClient: restoredClient, persister })
+
+    expect(restoredClient.getQueryData({ query: anQuery })).toBe('data')
+
+    queryClient.clear()
+    restoredClient.clear()
+  })
+
+  it('should discard the persisted cache if it is expired', async () => {
+    const persister = createMockPersister()
+    const anQuery = query({
+      key: 'expired',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    const queryClient = createQueryClient()
+    await queryClient.prefetchQuery({ query: anQuery })
+    await persistQueryClientSave({ queryClient, persister })
+    persister.persistedClient!.timestamp = Date.now() - 1000
+
+    const restoredClient = createQueryClient()
+    await persistQueryClientRestore({
+      queryClient: restoredClient,
+      persister,
+      maxAge: 500,
+    })
+
+    expect(restoredClient.getQueryData({ query: anQuery })).toBeUndefined()
+    expect(persister.persistedClient).toBeUndefined()
+
+    queryClient.clear()
+    restoredClient.clear()
+  })
+
+  it('should discard the persisted cache if the buster does not match', async () => {
+    const persister = createMockPersister()
+    const anQuery = query({
+      key: 'busted',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    const queryClient = createQueryClient()
+    await queryClient.prefetchQuery({ query: anQuery })
+    await persistQueryClientSave({ queryClient, persister, buster: 'v1' })
+
+    const restoredClient = createQueryClient()
+    await persistQueryClientRestore({
+      queryClient: restoredClient,
+      persister,
+      buster: 'v2',
+    })
+
+    expect(restoredClient.getQueryData({ query: anQuery })).toBeUndefined()
+    expect(persister.persistedClient).toBeUndefined()
+
+    queryClient.clear()
+    restoredClient.clear()
+  })
+
+  it('should discard the persisted cache if it cannot be restored', async () => {
+    const consoleMock = vi.spyOn(console, 'error')
+    consoleMock.mockImplementation(() => undefined)
+    const warnMock = vi.spyOn(console, 'warn')
+    warnMock.mockImplementation(() => undefined)
+
+    const storage = createMemoryStorage()
+    storage.setItem('QUAERE_OFFLINE_CACHE', '{ invalid json')
+    const persister = createStoragePersister({ storage })
+
+    await persistQueryClientRestore({
+      queryClient: createQueryClient(),
+      persister,
+    })
+
+    expect(storage.entries.size).toBe(0)
+    expect(warnMock).toHaveBeenCalledTimes(1)
+
+    consoleMock.mockRestore()
+    warnMock.mockRestore()
+  })
+
+  it('should only persist queries matching shouldDehydrateQuery', async () => {
+    const persister = createMockPersister()
+    const persistedQuery = query({
+      key: 'included',
+      fetcher: () => Promise.resolve('included'),
+    })
+    const skippedQuery = query({
+      key: 'excluded',
+      fetcher: () => Promise.resolve('excluded'),
+    })
+
+    const queryClient = createQueryClient()
+    await queryClient.prefetchQuery({ query: persistedQuery })
+    await queryClient.prefetchQuery({ query: skippedQuery })
+    await persistQueryClientSave({
+      queryClient,
+      persister,
+      dehydrateOptions: {
+        shouldDehydrateQuery: queryInfo => queryInfo.query.key === 'included',
+      },
+    })
+
+    expect(persister.persistedClient?.clientState.queries).toHaveLength(1)
+    expect(persister.persistedClient?.clientState.queries[0]?.queryHash).toBe(
+      '["included"]'
+    )
+
+    queryClient.clear()
+  })
+
+  it('should throttle writes to the storage', async () => {
+    const storage = createMemoryStorage()
+    const setItem = vi.spyOn(storage, 'setItem')
+    const persister = createStoragePersister({ storage, throttleTime: 20 })
+    const anQuery = query({
+      key: 'throttled',
+      fetcher: (id: number) => Promise.resolve(id),
+    })
+
+    const queryClient = createQueryClient()
+    const [unsubscribe, restorePromise] = persistQueryClient({
+      queryClient,
+      persister,
+    })
+    await restorePromise
+
+    await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 3 })
+
+    expect(setItem).not.toHaveBeenCalled()
+
+    await sleep(30)
+
+    expect(setItem).toHaveBeenCalledTimes(1)
+    const persistedClient: PersistedClient = JSON.parse(
+      storage.entries.get('QUAERE_OFFLINE_CACHE')!
+    )
+    expect(persistedClient.clientState.queries).toHaveLength(3)
+
+    unsubscribe()
+    queryClient.clear()
+  })
+
+  it('should not persist anything before the cache has been restored', async () => {
+    const persister = createMockPersister()
+    const anQuery = query({
+      key: 'restored',
+      fetcher: () => Promise.resolve('restored'),
+    })
+
+    const queryClient = createQueryClient()
+    await queryClient.prefetchQuery({ query: anQuery })
+    await persistQueryClientSave({ queryClient, persister })
+    queryClient.clear()
+
+    const persistClient = vi.spyOn(persister, 'persistClient')
+    const restoredClient = createQueryClient()
+    const [unsubscribe, restorePromise] = persistQueryClient({
+      queryClient: restoredClient,
+      persister,
+    })
+
+    expect(persistClient).not.toHaveBeenCalled()
+
+    await restorePromise
+
+    expect(restoredClient.getQueryData({ query: anQuery })).toBe('restored')
+
+    unsubscribe()
+    restoredClient.clear()
+  })
+
+  it('should save the cache once per batch of updates', async () => {
+    const persister = createMockPersister()
+    const persistClient = vi.spyOn(persister, 'persistClient')
+    const anQuery = query({
+      key: 'batched',
+      fetcher: (id: number) => Promise.resolve(id),
+    })
+
+    const queryClient = createQueryClient()
+    const [unsubscribe, restorePromise] = persistQueryClient({
+      queryClient,
+      persister,
+      throttleTime: 20,
+    })
+    await restorePromise
+
+    await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+    await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+
+    expect(persistClient).not.toHaveBeenCalled()
+
+    await sleep(30)
+
+    expect(persistClient).toHaveBeenCalledTimes(1)
+    expect(persister.persistedClient?.clientState.queries).toHaveLength(2)
+
+    unsubscribe()
+    queryClient.clear()
+  })
+
+  it('should not save once unsubscribed within the throttle window', async () => {
+    const persister = createMockPersister()
+    const persistClient = vi.spyOn(persister, 'persistClient')
+    const anQuery = query({
+      key: 'unsubscribed',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    const queryClient = createQueryClient()
+    const [unsubscribe, restorePromise] = persistQueryClient({
+      queryClient,
+      persister,
+      throttleTime: 20,
+    })
+    await restorePromise
+
+    await queryClient.prefetchQuery({ query: anQuery })
+    unsubscribe()
+    queryClient.clear()
+    await sleep(30)
+
+    expect(persistClient).not.toHaveBeenCalled()
+  })
+
+  it('should report the errors of a save', async () => {
+    const consoleMock = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined)
+    const error = new Error('quota exceeded')
+    const persister = createMockPersister()
+    persister.persistClient = () => Promise.reject(error)
+    const anQuery = query({
+      key: 'failed-save',
+      fetcher: () => Promise.resolve('data'),
+    })
+
+    const queryClient = createQueryClient()
+    const [unsubscribe, restorePromise] = persistQueryClient({
+      queryClient,
+      persister,
+    })
+    await restorePromise
+
+    await queryClient.prefetchQuery({ query: anQuery })
+    await sleep(10)
+
+    expect(consoleMock).toHaveBeenCalledWith(error)
+
+    consoleMock.mockRestore()
+    unsubscribe()
+    queryClient.clear()
+  })
+})
@@ -4,6 +4,7 @@ import { vi } from 'vitest'
 import {
   QueryCache,
   QueryClient,
+  QueryTag,
   createQueryCache,
   createQueryClient,
   query,
@@ -404,6 +405,75 @@ describe('queryCache', () => {
     })
   })
 
+  describe('tags', () => {
+    const ordersQuery = query({
+      key: generatekey(),
+      fetcher: (_: string) => Promise.resolve([{ id: 1 }, { id: 42 }]),
+      tags: (orders, status) => [
+        `Orders:${status}`,
+        ...orders.map(order => ({ type: 'Order', id: order.id })),
+      ],
+    })
+    const orderQuery = query({
+      key: generatekey(),
+      fetcher: (id: number) => Promise.resolve({ id }),
+      tags: order => [{ type: 'Order', id: order.id }],
+    })
+
+    it('should find the queries whose data carried a tag', async () => {
+      await queryClient.prefetchQuery({ query: ordersQuery, variables: 'open' })
+      await queryClient.prefetchQuery({ query: orderQuery, variables: 42 })
+      await queryClient.prefetchQuery({ query: orderQuery, variables: 7 })
+
+      const findVariables = (tags: QueryTag[]) =>
+        queryCache.findAll({ tags }).map(queryInfo => queryInfo.variables)
+
+      expect(findVariables([{ type: 'Order', id: 42 }])).toEqual(['open', 42])
+      expect(findVariables([{ type: 'Order', id: 7 }])).toEqual([7])
+      expect(findVariables(['Order'])).toEqual(['open', 42, 7])
+      expect(findVariables(['Orders:open'])).toEqual(['open'])
+      expect(findVariables(['Orders:closed'])).toEqual([])
+      expect(
+        queryCache.findAll({ tags: ['Order'], query: orderQuery }).length
+      ).toBe(2)
+    })
+
+    it('should only use the tags of the latest data', async () => {
+      await queryClient.prefetchQuery({ query: ordersQuery, variables: 'open' })
+
+      queryClient.setQueryData({ query: ordersQuery, variables: 'open' }, [
+        { id: 5 },
+      ])
+
+      expect(queryCache.findAll({ tags: [{ type: 'Order', id: 42 }] })).toEqual(
+        []
+      )
+      expect(queryCache.findAll({ tags: [{ type: 'Order', id: 5 }] })).toEqual([
+        queryCache.find({ query: ordersQuery, variables: 'open' }),
+      ])
+
+      queryClient.removeQueries({ query: ordersQuery })
+
+      expect(queryCache.findAll({ tags: ['Order'] })).toEqual([])
+    })
+
+    it('should invalidate the queries carrying a tag', async () => {
+      await queryClient.prefetchQuery({ query: orderQuery, variables: 42 })
+      await queryClient.prefetchQuery({ query: orderQuery, variables: 7 })
+
+      await queryClient.invalidateQueries({ tags: [{ type: 'Order', id: 42 }] })
+
+      expect(
+        queryClient.getQueryState({ query: orderQuery, variables: 42 })
+          ?.isInvalidated
+      ).toBe(true)
+      expect(
+        queryClient.getQueryState({ query: orderQuery, variables: 7 })
+          ?.isInvalidated
+      ).toBe(false)
+    })
+  })
+
   describe('QueryCacheConfig error callbacks', () => {
     it('should call onError and onSettled when a query errors', async () => {
       const anQuery = query({
@@ -1,16 +1,19 @@
 import { waitFor } from '@testing-library/react'
+import { vi } from 'vitest'
 
 import {
   createQueryClient,
   focusManager,
+  mutation,
   onlineManager,
   query,
   queryWithInfinite,
 } from '..'
 import type { QueryCache, QueryClient } from '..'
 import { createObservableQuery } from '../observableQuery'
+import { InfiniteData } from '../types'
 import { generatekey } from '../utils'
-import { mockOnlineManagerIsOnline, sleep } from './utils'
+import { expectType, mockOnlineManagerIsOnline, sleep } from './utils'
 
 describe('queryClient', () => {
   let queryClient: QueryClient
@@ -54,6 +57,137 @@ describe('queryClient', () => {
     })
   })
 
+  describe('setQueryDefaults', () => {
+    it('should merge the registered defaults between the global and the call options', async () => {
+      const anQuery = query({
+        key: generatekey(),
+        fetcher: (_: number) => Promise.resolve('data'),
+        gcTime: 1000,
+        staleTime: 1000,
+      })
+
+      const testClient = createQueryClient({
+        defaultOptions: {
+          queries: { gcTime: Infinity, retry: 5, refetchOnMount: false },
+        },
+      })
+      testClient.setQueryDefaults(anQuery, { gcTime: 2000, retry: 1 })
+
+      const defaultedOptions = testClient.defaultQueryOptions({
+        query: anQuery,
+        variables: 1,
+        retry: 2,
+      })
+
+      expect(defaultedOptions).toMatchObject({
+        refetchOnMount: false,
+        staleTime: 1000,
+        gcTime: 2000,
+        retry: 2,
+      })
+    })
+
+    it('should apply the defaults to queries with any variables', async () => {
+      const anQuery = query({
+        key: generatekey(),
+        fetcher: (id: number) => Promise.resolve(id),
+      })
+
+      queryClient.setQueryDefaults(anQuery, { gcTime: Infinity })
+
+      await queryClient.prefetchQuery({ query: anQuery, variables: 1 })
+      await queryClient.prefetchQuery({ query: anQuery, variables: 2 })
+
+      queryCache.findAll({ query: anQuery }).forEach(queryInfo => {
+        expect(queryInfo.options.gcTime).toBe(Infinity)
+      })
+    })
+
+    it('should apply the defaults registered for variables to the matching queries only', () => {
+      const anQuery = query({
+        key: generatekey(),
+        fetcher: (_: { id: number; page: number }) => Promise.resolve('data'),
+      })
+
+      queryClient.setQueryDefaults(anQuery, { gcTime: 1000 })
+      queryClient.setQueryDefaults(anQuery, { retry: 1 }, { id: 1 })
+
+      expect(queryClient.getQueryDefaults(anQuery, { id: 1, page: 2 })).toEqual(
+        { gcTime: 1000, retry: 1 }
+      )
+      expect(queryClient.getQueryDefaults(anQuery, { id: 2, page: 2 })).toEqual(
+        { gcTime: 1000 }
+      )
+      expect(queryClient.getQueryDefaults(anQuery)).toEqual({ gcTime: 1000 })
+    })
+
+    it('should overwrite the defaults of the same query', () => {
+      const anQuery = query({
+        key: generatekey(),
+        fetcher: () => Promise.resolve('data'),
+      })
+
+      queryClient.setQueryDefaults(anQuery, { gcTime: 1000, retry: 1 })
+      queryClient.setQueryDefaults(anQuery, { gcTime: 2000 })
+
+      expect(queryClient.getQueryDefaults(anQuery)).toEqual({ gcTime: 2000 })
+    })
+
+    it('should return an empty object if no defaults are registered', () => {
+      const anQuery = query({
+        key: generatekey(),
+        fetcher: () => Promise.resolve('data'),
+      })
+
+      expect(queryClient.getQueryDefaults(anQuery)).toEqual({})
+    })
+  })
+
+  describe('setMutationDefaults', () => {
+    it('should merge the registered defaults between the global and the call options', () => {
+      const anMutation = mutation({
+        fetcher: (text: string) => Promise.resolve(text),
+        gcTime: 1000,
+        retry: 1,
+      })
+
+      const testClient = createQueryClient({
+        defaultOptions: {
+          mutations: { networkMode: 'always', retry: 5 },
+        },
+      })
+      testClient.setMutationDefaults(anMutation, { gcTime: 2000, retry: 2 })
+
+      expect(testClient.getMutationDefaults(anMutation)).toEqual({
+        gcTime: 2000,
+        retry: 2,
+      })
+      expect(
+        testClient.defaultMutationOptions({ mutation: anMutation, retry: 3 })
+      ).toMatchObject({
+        networkMode: 'always',
+        gcTime: 2000,
+        retry: 3,
+      })
+    })
+
+    it('should use the registered callbacks', async () => {
+      const onSuccess = vi.fn()
+      const anMutation = mutation({
+        fetcher: (text: string) => Promise.resolve(text),
+      })
+
+      queryClient.setMutationDefaults(anMutation, { onSuccess })
+
+      await queryClient.triggerMutation({
+        mutation: anMutation,
+        variables: 'todo',
+      })
+
+      expect(onSuccess).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('setQueryData', () => {
     it('should not crash if query could not be found', () => {
       const anQuery = query({
@@ -428,6 +562,124 @@ describe('queryClient', () => {
     })
   })
 
+  describe('fetchInfiniteQuery', () => {
+    it('should fetch the requested number of pages', async () => {
+      const anQuery = queryWithInfinite({
+        key: generatekey(),
+        fetcher: (_: void, { pageParam }) => `page ${pageParam}`,
+        initialPageParam: 'a',
+        getNextPageParam: (_, __, lastPageParam) => `${lastPageParam}a`,
+      })
+
+      const data = await queryClient.fetchInfiniteQuery({
+        query: anQuery,
+        pages: 3,
+      })
+
+      expectType<InfiniteData<string, string>>(data)
+      expect(data).toEqual({
+        pages: ['page a', 'page aa', 'page aaa'],
+        pageParams: ['a', 'aa', 'aaa'],
+      })
+      expect(queryClient.getQueryData({ query: anQuery })).toEqual(data)
+    })
+
+    it('should start from the initialPageParam override', async () => {
+      const anQuery = queryWithInfinite({
+        key: generatekey(),
+        fetcher: (_: void, { pageParam }) => pageParam * 10,
+        initialPageParam: 1,
+        getNextPageParam: (_, __, lastPageParam) => lastPageParam + 1,
+      })
+
+      const data = await queryClient.fetchInfiniteQuery({
+        query: anQuery,
+        pages: 2,
+        initialPageParam: 5,
+      })
+
+      expect(data).toEqual({ pages: [50, 60], pageParams: [5, 6] })
+    })
+
+    it('should stop fetching pages when there is no next page', async () => {
+      const fetcher = vi.fn((_: void, { pageParam }: { pageParam: number }) =>
+        String(pageParam)
+      )
+      const anQuery = queryWithInfinite({
+        key: generatekey(),
+        fetcher,
+        initialPageParam: 1,
+        getNextPageParam: (_, __, lastPageParam) =>
+          lastPageParam < 2 ? lastPageParam + 1 : undefined,
+      })
+
+      const data = await queryClient.fetchInfiniteQuery({
+        query: anQuery,
+        pages: 5,
+      })
+
+      expect(data.pages).toEqual(['1', '2'])
+      expect(fetcher).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('prefetchInfiniteQuery', () => {
+    it('should prefetch pages into the cache', async () => {
+      const anQuery = queryWithInfinite({
+        key: generatekey(),
+        fetcher: (_: void, { pageParam }) => pageParam,
+        initialPageParam: 0,
+        getNextPageParam: (_, __, lastPageParam) => lastPageParam + 1,
+      })
+
+      const result = await queryClient.prefetchInfiniteQuery({
+        query: anQuery,
+        pages: 2,
+      })
+
+      expect(result).toBeUndefined()
+      expect(queryClient.getQueryData({ query: anQuery })).toEqual({
+        pages: [0, 1],
+        pageParams: [0, 1],
+      })
+    })
+  })
+
+  describe('ensureInfiniteQueryData', () => {
+    it('should return the cached data if the query is found', async () => {
+      const fetcher = vi.fn(() => 'data')
+      const anQuery = queryWithInfinite({
+        key: generatekey(),
+        fetcher,
+        initialPageParam: 0,
+        getNextPageParam: () => undefined,
+      })
+
+      queryClient.setQueryData(
+        { query: anQuery },
+        { pages: ['cached'], pageParams: [0] }
+      )
+
+      await expect(
+        queryClient.ensureInfiniteQueryData({ query: anQuery, pages: 2 })
+      ).resolves.toEqual({ pages: ['cached'], pageParams: [0] })
+      expect(fetcher).not.toHaveBeenCalled()
+    })
+
+    it('should fetch the pages if the query is not found', async () => {
+      const anQuery = queryWithInfinite({
+        key: generatekey(),
+        fetcher: (_: void, { pageParam }) => pageParam,
+        initialPageParam: 0,
+        getNextPageParam: (_, __, lastPageParam) => lastPageParam + 1,
+      })
+
+      await expect(
+        queryClient.ensureInfiniteQueryData({ query: anQuery, pages: 2 })
+      ).resolves.toEqual({ pages: [0, 1], pageParams: [0, 1] })
+    })
+  })
+
   describe('getQueriesData', () => {
     it('should return the query data for all matched queries', () => {
       const anQuery1 = query({
@@ -850,6 +1102,38 @@ describe('queryClient', () => {
     })
   })
 
+  describe('cancelMutations', () => {
+    it('should cancel the mutations matching the filters', async () => {
+      const fetcher = async (text: string) => {
+        await sleep(10)
+        return text
+      }
+      const anMutation1 = mutation({ fetcher })
+      const anMutation2 = mutation({ fetcher })
+
+      const promise1 = queryClient.triggerMutation({
+        mutation: anMutation1,
+        variables: 'first',
+      })
+      const promise2 = queryClient.triggerMutation({
+        mutation: anMutation2,
+        variables: 'second',
+      })
+      promise1.catch(() => undefined)
+      await sleep(0)
+
+      await queryClient.cancelMutations({ mutation: anMutation1 })
+
+      await expect(promise2).resolves.toBe('second')
+      expect(
+        queryClient
+          .getMutationCache()
+          .findAll()
+          .map(mutationInfo => mutationInfo.state.status)
+      ).toEqual(['cancelled', 'success'])
+    })
+  })
+
   describe('refetchQueries', () => {
     it('should not refetch if all observers are disabled', async () => {
       const queryFn = vi.fn<[undefined, any], string>().mockReturnValue('data')
@@ -0,0 +1,216 @@
+import { waitFor } from '@testing-library/react'
+import { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import { vi } from 'vitest'
+
+import { createQueryClient, query } from '..'
+import type { QueryClient } from '..'
+import {
+  ObservableQueryResult,
+  createObservableQuery,
+} from '../observableQuery'
+import { generatekey } from '../utils'
+import { expectType, sleep } from './utils'
+
+describe('StreamQueryBehavior', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+    queryClient.mount()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  const createChunks = (count: number, prefix = '') =>
+    async function* () {
+      for (let i = 1; i <= count; i++) {
+        await sleep(10)
+        yield `${prefix}${i}`
+      }
+    }
+
+  it('should update the data with each chunk while fetching', async () => {
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: createChunks(3),
+    })
+
+    const observer = createObservableQuery(queryClient, { query: anQuery })
+    const results: Array<ObservableQueryResult<string[], Error>> = []
+    const unsubscribe = observer.subscribe(result => {
+      expectType<string[] | undefined>(result.data)
+      results.push(result)
+    })
+
+    await waitFor(() => expect(results.at(-1)?.isFetching).toBe(false))
+    unsubscribe()
+
+    expect(
+      results.map(({ isLoading, isFetching, data }) => ({
+        isLoading,
+        isFetching,
+        data,
+      }))
+    ).toEqual([
+      { isLoading: true, isFetching: true, data: undefined },
+      { isLoading: false, isFetching: true, data: ['1'] },
+      { isLoading: false, isFetching: true, data: ['1', '2'] },
+      { isLoading: false, isFetching: true, data: ['1', '2', '3'] },
+      { isLoading: false, isFetching: false, data: ['1', '2', '3'] },
+    ])
+  })
+
+  it('should reduce the chunks of a ReadableStream with the reducer', async () => {
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () =>
+        new NodeReadableStream<string>({
+          start: controller => {
+            controller.enqueue('a')
+            controller.enqueue('b')
+            controller.enqueue('c')
+            controller.close()
+          },
+        }) as ReadableStream<string>,
+      reducer: (text: string, chunk) => text + chunk,
+      initialValue: '',
+    })
+
+    const data = await queryClient.fetchQuery({ query: anQuery })
+
+    expectType<string>(data)
+    expect(data).toBe('abc')
+  })
+
+  it('should leave fetchers which do not return a stream as they are', async () => {
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => Promise.resolve({ items: ['a'] }),
+    })
+
+    await expect(queryClient.fetchQuery({ query: anQuery })).resolves.toEqual({
+      items: ['a'],
+    })
+  })
+
+  it('should reset the data on refetch by default', async () => {
+    let count = 0
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => createChunks(2, `${++count}-`)(),
+    })
+
+    await queryClient.fetchQuery({ query: anQuery })
+
+    const promise = queryClient.fetchQuery({ query: anQuery })
+
+    await sleep(0)
+    expect(queryClient.getQueryState({ query: anQuery })).toMatchObject({
+      status: 'pending',
+      data: undefined,
+    })
+
+    await sleep(15)
+    expect(queryClient.getQueryData({ query: anQuery })).toEqual(['2-1'])
+
+    await expect(promise).resolves.toEqual(['2-1', '2-2'])
+  })
+
+  it('should append the chunks to the existing data with the `append` refetchMode', async () => {
+    let count = 0
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => createChunks(2, `${++count}-`)(),
+      refetchMode: 'append',
+    })
+
+    await queryClient.fetchQuery({ query: anQuery })
+
+    const promise = queryClient.fetchQuery({ query: anQuery })
+
+    await sleep(15)
+    expect(queryClient.getQueryData({ query: anQuery })).toEqual([
+      '1-1',
+      '1-2',
+      '2-1',
+    ])
+
+    await expect(promise).resolves.toEqual(['1-1', '1-2', '2-1', '2-2'])
+  })
+
+  it('should keep the existing data until the stream ends with the `replace` refetchMode', async () => {
+    let count = 0
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => createChunks(2, `${++count}-`)(),
+      refetchMode: 'replace',
+    })
+
+    await queryClient.fetchQuery({ query: anQuery })
+
+    const promise = queryClient.fetchQuery({ query: anQuery })
+
+    await sleep(15)
+    expect(queryClient.getQueryData({ query: anQuery })).toEqual(['1-1', '1-2'])
+
+    await expect(promise).resolves.toEqual(['2-1', '2-2'])
+  })
+
+  it('should stop the iteration when the signal is aborted', async () => {
+    let yielded = 0
+    let finished = false
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: async function* () {
+        try {
+          for (let i = 1; i <= 5; i++) {
+            await sleep(10)
+            yielded++
+            yield i
+          }
+        } finally {
+          finished = true
+        }
+      },
+    })
+
+    queryClient.prefetchQuery({ query: anQuery })
+
+    await sleep(15)
+    await queryClient.cancelQueries({ query: anQuery })
+    await sleep(50)
+
+    expect(yielded).toBe(2)
+    expect(finished).toBe(true)
+    expect(queryClient.getQueryState({ query: anQuery })?.fetchStatus).toBe(
+      'idle'
+    )
+  })
+
+  it('should close an iterator waiting for its next chunk when aborted', async () => {
+    const close = vi.fn(() =>
+      Promise.resolve({ done: true as const, value: undefined })
+    )
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: (): AsyncIterable<number> => ({
+        [Symbol.asyncIterator]: () => ({
+          next: () => new Promise<IteratorResult<number>>(() => undefined),
+          return: close,
+        }),
+      }),
+    })
+
+    queryClient.prefetchQuery({ query: anQuery })
+
+    await sleep(10)
+    await queryClient.cancelQueries({ query: anQuery })
+
+    expect(close).toHaveBeenCalledTimes(1)
+    expect(queryClient.getQueryState({ query: anQuery })?.fetchStatus).toBe(
+      'idle'
+    )
+  })
+})
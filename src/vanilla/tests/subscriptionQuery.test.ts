@@ -0,0 +1,184 @@
+import { waitFor } from '@testing-library/react'
+
+import {
+  createQueryClient,
+  focusManager,
+  onlineManager,
+  subscriptionQuery,
+} from '..'
+import type { QueryClient, SubscriptionObserver } from '..'
+import { createObservableQuery } from '../observableQuery'
+import { generatekey } from '../utils'
+import { expectType, sleep } from './utils'
+
+// A push source standing in for a WebSocket
+const createSource = <T>() => {
+  const source = {
+    connections: 0,
+    observer: null as SubscriptionObserver<T, Error> | null,
+    subscribe: (_id: number, observer: SubscriptionObserver<T, Error>) => {
+      source.connections++
+      source.observer = observer
+      return () => {
+        source.observer = null
+      }
+    },
+    push: (data: T) => source.observer?.next(data),
+    fail: (error: Error) => source.observer?.error(error),
+  }
+
+  return source
+}
+
+describe('subscriptionQuery', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+    queryClient.mount()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should feed the pushed values while the query has observers', async () => {
+    const source = createSource<string>()
+    const anQuery = subscriptionQuery({
+      key: generatekey(),
+      subscribe: source.subscribe,
+    })
+
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      variables: 1,
+    })
+    const results: Array<string | undefined> = []
+    const unsubscribe = observer.subscribe(result => {
+      expectType<string | undefined>(result.data)
+      results.push(result.data)
+    })
+
+    expect(source.connections).toBe(1)
+
+    source.push('first')
+    source.push('second')
+
+    await waitFor(() => expect(results.at(-1)).toBe('second'))
+    expect(
+      queryClient.getQueryState({ query: anQuery, variables: 1 })
+    ).toMatchObject({ status: 'success', fetchStatus: 'idle' })
+
+    unsubscribe()
+
+    expect(source.observer).toBeNull()
+  })
+
+  it('should connect again when a new observer subscribes', async () => {
+    const source = createSource<string>()
+    const anQuery = subscriptionQuery({
+      key: generatekey(),
+      subscribe: source.subscribe,
+    })
+
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      variables: 1,
+    })
+    const unsubscribe1 = observer.subscribe(() => {})
+    source.push('first')
+    await sleep(0)
+    unsubscribe1()
+
+    const unsubscribe2 = observer.subscribe(() => {})
+
+    expect(source.connections).toBe(2)
+    expect(queryClient.getQueryData({ query: anQuery, variables: 1 })).toBe(
+      'first'
+    )
+
+    unsubscribe2()
+  })
+
+  it('should set the error pushed by the source and reconnect on focus', async () => {
+    const source = createSource<string>()
+    const anQuery = subscriptionQuery({
+      key: generatekey(),
+      subscribe: source.subscribe,
+    })
+
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      variables: 1,
+    })
+    const unsubscribe = observer.subscribe(() => {})
+    source.push('first')
+    await sleep(0)
+
+    const error = new Error('closed')
+    source.fail(error)
+
+    expect(
+      queryClient.getQueryState({ query: anQuery, variables: 1 })
+    ).toMatchObject({ status: 'error', error, isInvalidated: true })
+    expect(source.observer).toBeNull()
+
+    focusManager.setFocused(true)
+
+    expect(source.connections).toBe(2)
+
+    source.push('second')
+    await sleep(0)
+
+    expect(
+      queryClient.getQueryState({ query: anQuery, variables: 1 })
+    ).toMatchObject({ status: 'success', data: 'second' })
+
+    unsubscribe()
+    focusManager.setFocused(undefined)
+  })
+
+  it('should reconnect when going back online', async () => {
+    const source = createSource<string>()
+    const anQuery = subscriptionQuery({
+      key: generatekey(),
+      subscribe: source.subscribe,
+    })
+
+    const observer = createObservableQuery(queryClient, {
+      query: anQuery,
+      variables: 1,
+    })
+    const unsubscribe = observer.subscribe(() => {})
+    source.push('first')
+    await sleep(0)
+
+    onlineManager.setOnline(false)
+    source.fail(new Error('offline'))
+    onlineManager.setOnline(true)
+
+    expect(source.connections).toBe(2)
+
+    unsubscribe()
+  })
+
+  it('should close the connection when the query is garbage collected', async () => {
+    const source = createSource<string>()
+    const anQuery = subscriptionQuery({
+      key: generatekey(),
+      subscribe: source.subscribe,
+      gcTime: 10,
+    })
+
+    const promise = queryClient.fetchQuery({ query: anQuery, variables: 1 })
+    source.push('first')
+
+    await expect(promise).resolves.toBe('first')
+    expect(source.observer).not.toBeNull()
+
+    await sleep(20)
+
+    expect(queryClient.getQueryCache().getAll()).toHaveLength(0)
+    expect(source.observer).toBeNull()
+  })
+})
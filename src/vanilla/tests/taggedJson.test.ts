@@ -0,0 +1,53 @@
+import {
+  fromTaggedJson,
+  parseTaggedJson,
+  stringifyTaggedJson,
+  toTaggedJson,
+} from '../taggedJson'
+
+const roundTrip = (value: unknown) =>
+  fromTaggedJson(JSON.parse(JSON.stringify(toTaggedJson(value))))
+
+describe('taggedJson', () => {
+  it('should round trip the values JSON can not represent', () => {
+    const value = {
+      date: new Date(2023, 0, 1),
+      map: new Map<unknown, unknown>([
+        ['a', 1],
+        [2, new Set([1n, undefined])],
+      ]),
+      regExp: /quaere/gi,
+      numbers: [NaN, Infinity, -Infinity, -0, 1],
+      nested: [{ missing: undefined }],
+    }
+
+    expect(roundTrip(value)).toEqual(value)
+    expect(Object.is(roundTrip(-0), -0)).toBe(true)
+  })
+
+  it('should round trip errors', () => {
+    const error = new TypeError('failed')
+    const decoded = roundTrip({ error }) as { error: Error }
+
+    expect(decoded.error).toBeInstanceOf(Error)
+    expect(decoded.error.name).toBe('TypeError')
+    expect(decoded.error.message).toBe('failed')
+    expect(decoded.error.stack).toBe(error.stack)
+  })
+
+  it('should keep the objects which look like tagged values', () => {
+    const value = { $t: 'Date', v: 0 }
+
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  it('should escape the characters unsafe in a script tag', () => {
+    const value = { html: '</script><script>alert(1)</script>&\u2028\u2029' }
+    const text = stringifyTaggedJson(value)
+
+    expect(text).not.toMatch(/[<>&\u2028\u2029]/)
+    expect(parseTaggedJson(text)).toEqual(value)
+    // The escapes are also valid JavaScript
+    expect(new Function(`return ${text}`)()).toEqual(value)
+  })
+})
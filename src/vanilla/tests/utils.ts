@@ -40,10 +40,11 @@ export const expectType = <T>(_: T): void => undefined
 export const executeMutation = <
   TData = unknown,
   TVars = unknown,
-  TError = Error
+  TError = Error,
+  TContext = unknown
 >(
   queryClient: QueryClient,
-  options: MutationInfoOptions<TData, TVars, TError>,
+  options: MutationInfoOptions<TData, TVars, TError, TContext>,
   variables: TVars
 ) => {
   return queryClient
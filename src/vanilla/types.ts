@@ -1,9 +1,9 @@
 import { Mutation } from './mutation'
 import { PrimitiveQuery } from './primitiveQuery'
 
-export interface InfiniteData<TFetcherData> {
+export interface InfiniteData<TFetcherData, TPageParam = unknown> {
   pages: TFetcherData[]
-  pageParams: number[]
+  pageParams: TPageParam[]
 }
 
 export type inferVariables<T> = T extends PrimitiveQuery<
@@ -87,6 +87,34 @@ export const sleep = (timeout: number): Promise<void> => {
   })
 }
 
+// Calls `fn` once per window with the latest arguments only,
+// so intermediate states are skipped.
+// `cancel` drops the call pending in the current window
+export const throttle = <TArgs extends any[]>(
+  fn: (...args: TArgs) => void,
+  wait: number
+): [throttled: (...args: TArgs) => void, cancel: () => void] => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let params: TArgs
+
+  return [
+    (...args: TArgs) => {
+      params = args
+
+      if (!timer) {
+        timer = setTimeout(() => {
+          fn(...params)
+          timer = UNDEFINED
+        }, wait)
+      }
+    },
+    () => {
+      clearTimeout(timer)
+      timer = UNDEFINED
+    },
+  ]
+}
+
 export const isPlainArray = (value: unknown) => {
   return Array.isArray(value) && value.length === Object.keys(value).length
 }
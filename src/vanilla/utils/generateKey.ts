@@ -8,3 +8,17 @@ export const generatekey = () => {
 export const isGeneratedKey = (key: string) => {
   return key.startsWith(prefix)
 }
+
+const warnedKeys = new Set<string>()
+
+// Warns once per key, generated keys differ between the server and the client
+export const warnGeneratedKey = (key: string, message: string) => {
+  if (warnedKeys.has(key)) {
+    return
+  }
+
+  warnedKeys.add(key)
+  console.warn(
+    `${message} Its key '${key}' is generated, so it differs between the server and the client. Pass a 'key' option, or use 'quaere/babel-plugin' to derive one.`
+  )
+}
@@ -0,0 +1,58 @@
+import { App, InjectionKey, hasInjectionContext, inject } from 'vue'
+
+import { QueryClient, createQueryClient } from '../vanilla'
+
+const queryClientKey: InjectionKey<QueryClient> = Symbol('QueryClient')
+
+let defaultQueryClient: QueryClient | undefined
+
+// Created on first use, importing the entry has no side effects
+const getDefaultQueryClient = (): QueryClient => {
+  if (!defaultQueryClient) {
+    defaultQueryClient = createQueryClient()
+  }
+  return defaultQueryClient
+}
+
+export const useQueryClient = (queryClient?: QueryClient): QueryClient => {
+  if (queryClient) {
+    return queryClient
+  }
+
+  return (
+    (hasInjectionContext() && inject(queryClientKey, null)) ||
+    getDefaultQueryClient()
+  )
+}
+
+export interface QueryClientPluginOptions {
+  /**
+   * The client provided to the composables of the app,
+   * defaults to a new client.
+   */
+  queryClient?: QueryClient
+}
+
+/**
+ * Provides a `QueryClient` to the composables of an app,
+ * the client is mounted until the app is unmounted.
+ *
+ * @example
+ * createApp(App).use(QueryClientPlugin, { queryClient })
+ */
+export const QueryClientPlugin = {
+  install: (
+    app: App,
+    { queryClient = createQueryClient() }: QueryClientPluginOptions = {}
+  ): void => {
+    queryClient.mount()
+
+    const unmount = app.unmount
+    app.unmount = () => {
+      queryClient.unmount()
+      unmount()
+    }
+
+    app.provide(queryClientKey, queryClient)
+  },
+}
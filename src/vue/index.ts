@@ -0,0 +1,7 @@
+export * from '../vanilla'
+export * from './useQuery'
+export * from './useQueries'
+export * from './useIsFetching'
+export * from './useMutation'
+export * from './useMutationState'
+export * from './QueryClientPlugin'
@@ -0,0 +1,101 @@
+import { createQueryClient, mutation } from '../../vanilla'
+import type { QueryClient } from '../../vanilla'
+import { useMutation } from '../useMutation'
+import { useIsMutating, useMutationState } from '../useMutationState'
+import { renderComposable, sleep } from './utils'
+
+describe('useMutation', () => {
+  let queryClient: QueryClient
+
+  const anMutation = mutation({
+    fetcher: async (text: string) => {
+      await sleep(10)
+      return text.toUpperCase()
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should hold the state of the last triggered mutation in refs', async () => {
+    const onSuccess = vi.fn()
+    const { result, unmount } = renderComposable(
+      () => useMutation({ mutation: anMutation }),
+      queryClient
+    )
+
+    expect(result.isMutating.value).toBe(false)
+
+    const promise = result.trigger('todo', { onSuccess })
+
+    expect(result.isMutating.value).toBe(true)
+    expect(result.variables.value).toBe('todo')
+
+    await expect(promise).resolves.toBe('TODO')
+
+    expect(result.isMutating.value).toBe(false)
+    expect(result.data.value).toBe('TODO')
+    expect(onSuccess).toHaveBeenCalledTimes(1)
+
+    result.reset()
+
+    expect(result.data.value).toBeUndefined()
+
+    unmount()
+  })
+
+  it('should cancel the last triggered mutation', async () => {
+    const { result, unmount } = renderComposable(
+      () => useMutation({ mutation: anMutation }),
+      queryClient
+    )
+
+    const promise = result.trigger('todo')
+    result.cancel()
+
+    await expect(promise).rejects.toThrow()
+    expect(result.isCancelled.value).toBe(true)
+
+    unmount()
+  })
+})
+
+describe('useMutationState', () => {
+  it('should hold the state of the matching mutations in a ref', async () => {
+    const queryClient = createQueryClient()
+    const anMutation = mutation({
+      fetcher: (text: string) => sleep(10).then(() => text),
+    })
+    const { result, unmount } = renderComposable(
+      () => ({
+        variables: useMutationState({
+          select: mutationInfo => mutationInfo.state.variables,
+        }),
+        isMutating: useIsMutating(),
+      }),
+      queryClient
+    )
+
+    expect(result.variables.value).toEqual([])
+
+    const promise = queryClient.triggerMutation({
+      mutation: anMutation,
+      variables: 'todo',
+    })
+
+    expect(result.variables.value).toEqual(['todo'])
+    expect(result.isMutating.value).toBe(1)
+
+    await promise
+
+    expect(result.isMutating.value).toBe(0)
+
+    unmount()
+    queryClient.clear()
+  })
+})
@@ -0,0 +1,99 @@
+import { ref } from 'vue'
+
+import { createQueryClient, query } from '../../vanilla'
+import type { QueryClient } from '../../vanilla'
+import { generatekey } from '../../vanilla/utils'
+import { useIsFetching } from '../useIsFetching'
+import { useQueries } from '../useQueries'
+import { renderComposable, sleep } from './utils'
+
+describe('useQueries', () => {
+  let queryClient: QueryClient
+
+  const anQuery = query({
+    key: generatekey(),
+    fetcher: async (id: number) => {
+      await sleep(10)
+      return id * 10
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should hold the results of every query in a ref', async () => {
+    const ids = ref([1, 2])
+    const { result, unmount } = renderComposable(
+      () =>
+        useQueries({
+          queries: () =>
+            ids.value.map(id => ({ query: anQuery, variables: id })),
+        }),
+      queryClient
+    )
+
+    await sleep(20)
+    expect(result.value.map(x => x.data)).toEqual([10, 20])
+
+    ids.value = [1, 2, 3]
+    await sleep(20)
+
+    expect(result.value.map(x => x.data)).toEqual([10, 20, 30])
+
+    unmount()
+  })
+
+  it('should combine the results', async () => {
+    const { result, unmount } = renderComposable(
+      () =>
+        useQueries({
+          queries: [
+            { query: anQuery, variables: 1 },
+            { query: anQuery, variables: 2 },
+          ],
+          combine: results => results.map(x => x.data ?? 0),
+        }),
+      queryClient
+    )
+
+    expect(result.value).toEqual([0, 0])
+
+    await sleep(20)
+
+    expect(result.value).toEqual([10, 20])
+
+    unmount()
+  })
+})
+
+describe('useIsFetching', () => {
+  it('should hold the number of fetching queries in a ref', async () => {
+    const queryClient = createQueryClient()
+    const anQuery = query({
+      key: generatekey(),
+      fetcher: () => sleep(10).then(() => 'data'),
+    })
+    const { result, unmount } = renderComposable(
+      () => useIsFetching(),
+      queryClient
+    )
+
+    expect(result.value).toBe(0)
+
+    const promise = queryClient.fetchQuery({ query: anQuery })
+
+    expect(result.value).toBe(1)
+
+    await promise
+
+    expect(result.value).toBe(0)
+
+    unmount()
+    queryClient.clear()
+  })
+})
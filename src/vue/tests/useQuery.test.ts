@@ -0,0 +1,108 @@
+import { ref } from 'vue'
+
+import { createQueryClient, query } from '../../vanilla'
+import type { QueryClient } from '../../vanilla'
+import { generatekey } from '../../vanilla/utils'
+import { useQueryClient } from '../QueryClientPlugin'
+import { useQuery } from '../useQuery'
+import { renderComposable, sleep } from './utils'
+
+describe('useQuery', () => {
+  let queryClient: QueryClient
+
+  const anQuery = query({
+    key: generatekey(),
+    fetcher: async (id: number) => {
+      await sleep(10)
+      return `todo ${id}`
+    },
+  })
+
+  beforeEach(() => {
+    queryClient = createQueryClient()
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should provide the client of the plugin', () => {
+    const { result, unmount } = renderComposable(
+      () => useQueryClient(),
+      queryClient
+    )
+
+    expect(result).toBe(queryClient)
+
+    unmount()
+  })
+
+  it('should hold the latest result in a ref', async () => {
+    const { result, unmount } = renderComposable(
+      () => useQuery({ query: anQuery, variables: 1 }),
+      queryClient
+    )
+
+    expect(result.value).toMatchObject({
+      isLoading: true,
+      isFetching: true,
+      data: undefined,
+    })
+
+    await sleep(20)
+
+    expect(result.value).toMatchObject({
+      isLoading: false,
+      isFetching: false,
+      data: 'todo 1',
+    })
+
+    unmount()
+  })
+
+  it('should follow reactive variables', async () => {
+    const id = ref(1)
+    const { result, unmount } = renderComposable(
+      () => useQuery(() => ({ query: anQuery, variables: id.value })),
+      queryClient
+    )
+
+    await sleep(20)
+    expect(result.value.data).toBe('todo 1')
+
+    id.value = 2
+    await sleep(20)
+
+    expect(result.value.data).toBe('todo 2')
+    expect(queryClient.getQueryData({ query: anQuery, variables: 1 })).toBe(
+      'todo 1'
+    )
+
+    unmount()
+  })
+
+  it('should stop observing the query once unmounted', async () => {
+    const { unmount } = renderComposable(
+      () => useQuery({ query: anQuery, variables: 1 }),
+      queryClient
+    )
+
+    await sleep(20)
+
+    expect(
+      queryClient
+        .getQueryCache()
+        .find({ query: anQuery, variables: 1 })
+        ?.getObserversCount()
+    ).toBe(1)
+
+    unmount()
+
+    expect(
+      queryClient
+        .getQueryCache()
+        .find({ query: anQuery, variables: 1 })
+        ?.getObserversCount()
+    ).toBe(0)
+  })
+})
@@ -0,0 +1,32 @@
+import { createApp, defineComponent } from 'vue'
+
+import { QueryClient } from '../../vanilla'
+import { QueryClientPlugin } from '../QueryClientPlugin'
+
+export function sleep(timeout: number): Promise<void> {
+  return new Promise(resolve => {
+    setTimeout(resolve, timeout)
+  })
+}
+
+// Calls a composable in the setup of a component mounted in an app using the client
+export function renderComposable<T>(
+  composable: () => T,
+  queryClient: QueryClient
+): { result: T; unmount: () => void } {
+  let result!: T
+
+  const app = createApp(
+    defineComponent({
+      setup() {
+        result = composable()
+        return () => null
+      },
+    })
+  )
+
+  app.use(QueryClientPlugin, { queryClient })
+  app.mount(document.createElement('div'))
+
+  return { result, unmount: () => app.unmount() }
+}
@@ -0,0 +1,37 @@
+import { MaybeRefOrGetter, Ref, shallowRef, toValue, watch } from 'vue'
+
+import type { QueryClient, QueryInfoFilters } from '../vanilla'
+import { useQueryClient } from './QueryClientPlugin'
+import { onDispose } from './utils'
+
+/**
+ * @returns a ref holding the number of queries matching the filters
+ * which are fetching
+ */
+export function useIsFetching(
+  filters?: MaybeRefOrGetter<QueryInfoFilters | undefined>,
+  queryClient?: QueryClient
+): Readonly<Ref<number>> {
+  const client = useQueryClient(queryClient)
+  const getCount = () => client.isFetching(toValue(filters))
+  const count = shallowRef(getCount())
+
+  const unsubscribe = client.getQueryCache().subscribe(() => {
+    count.value = getCount()
+  })
+
+  const stopWatch = watch(
+    () => toValue(filters),
+    () => {
+      count.value = getCount()
+    },
+    { deep: true }
+  )
+
+  onDispose(() => {
+    stopWatch()
+    unsubscribe()
+  })
+
+  return count
+}
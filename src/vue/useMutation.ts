@@ -0,0 +1,97 @@
+import {
+  ComputedRef,
+  MaybeRefOrGetter,
+  computed,
+  shallowRef,
+  toValue,
+  watch,
+} from 'vue'
+
+import type { QueryClient } from '../vanilla'
+import {
+  ObservableMutationOptions,
+  ObservableMutationResult,
+  createObservableMutation,
+} from '../vanilla/observableMutation'
+import { useQueryClient } from './QueryClientPlugin'
+import { onDispose } from './utils'
+
+export interface UseMutationOptions<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> extends ObservableMutationOptions<TData, TVars, TError, TContext> {}
+
+type MutationResult<TData, TVars, TError, TContext> = ObservableMutationResult<
+  TData,
+  TVars,
+  TError,
+  TContext
+>
+
+export type UseMutationResult<
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+> = {
+  [K in keyof MutationResult<TData, TVars, TError, TContext>]-?: K extends
+    | 'trigger'
+    | 'cancel'
+    | 'reset'
+    ? MutationResult<TData, TVars, TError, TContext>[K]
+    : ComputedRef<MutationResult<TData, TVars, TError, TContext>[K]>
+}
+
+/**
+ * Tracks the last mutation triggered with `trigger`,
+ * the options may be a ref or a getter.
+ */
+export const useMutation = <
+  TData = unknown,
+  TVars = void,
+  TError = Error,
+  TContext = unknown
+>(
+  mutationOptions: MaybeRefOrGetter<
+    UseMutationOptions<TData, TVars, TError, TContext>
+  >,
+  queryClient?: QueryClient
+): UseMutationResult<TData, TVars, TError, TContext> => {
+  const client = useQueryClient(queryClient)
+  const obsMutation = createObservableMutation(client, toValue(mutationOptions))
+  const result = shallowRef(obsMutation.getCurrentResult())
+
+  const unsubscribe = obsMutation.subscribe(nextResult => {
+    result.value = nextResult
+  })
+
+  const stopWatch = watch(
+    () => toValue(mutationOptions),
+    options => {
+      obsMutation.setOptions(options)
+    },
+    { deep: true }
+  )
+
+  onDispose(() => {
+    stopWatch()
+    unsubscribe()
+  })
+
+  return {
+    data: computed(() => result.value.data),
+    error: computed(() => result.value.error),
+    variables: computed(() => result.value.variables),
+    context: computed(() => result.value.context),
+    failureCount: computed(() => result.value.failureCount),
+    failureReason: computed(() => result.value.failureReason),
+    isMutating: computed(() => result.value.isMutating),
+    isQueued: computed(() => result.value.isQueued),
+    isCancelled: computed(() => result.value.isCancelled),
+    trigger: obsMutation.trigger,
+    cancel: obsMutation.cancel,
+    reset: obsMutation.reset,
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  MaybeRefOrGetter,
+  Ref,
+  computed,
+  shallowRef,
+  toValue,
+  watch,
+} from 'vue'
+
+import { MutationCache, MutationInfoFilters, QueryClient } from '../vanilla'
+import { MutationInfo, MutationInfoState } from '../vanilla/mutationInfo'
+import { replaceEqualDeep } from '../vanilla/utils'
+import { useQueryClient } from './QueryClientPlugin'
+import { onDispose } from './utils'
+
+export type MutationStateOptions<
+  TData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TResult = MutationInfoState<TData, TVars, TError>
+> = {
+  filters?: MutationInfoFilters<TData, TVars, TError>
+  select?: (mutationInfo: MutationInfo<TData, TVars, TError>) => TResult
+}
+
+function getResult<
+  TData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TResult = MutationInfoState<TData, TVars, TError>
+>(
+  mutationCache: MutationCache,
+  options: MutationStateOptions<TData, TVars, TError, TResult>
+): Array<TResult> {
+  return mutationCache
+    .findAll(options.filters)
+    .map(
+      (mutation): TResult =>
+        (options.select ? options.select(mutation) : mutation.state) as TResult
+    )
+}
+
+/**
+ * @returns a ref holding the state of the mutations matching the filters,
+ * or the value picked by `select` for each of them
+ */
+export function useMutationState<
+  TData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TResult = MutationInfoState<TData, TVars, TError>
+>(
+  options: MaybeRefOrGetter<
+    MutationStateOptions<TData, TVars, TError, TResult>
+  > = {},
+  queryClient?: QueryClient
+): Readonly<Ref<Array<TResult>>> {
+  const mutationCache = useQueryClient(queryClient).getMutationCache()
+  const result = shallowRef(getResult(mutationCache, toValue(options)))
+
+  const updateResult = () => {
+    const nextResult = replaceEqualDeep(
+      result.value,
+      getResult(mutationCache, toValue(options))
+    )
+    if (result.value !== nextResult) {
+      result.value = nextResult
+    }
+  }
+
+  const unsubscribe = mutationCache.subscribe(updateResult)
+  const stopWatch = watch(() => toValue(options), updateResult, { deep: true })
+
+  onDispose(() => {
+    stopWatch()
+    unsubscribe()
+  })
+
+  return result
+}
+
+/**
+ * @returns a ref holding the number of mutations matching the filters
+ * which are mutating
+ */
+export function useIsMutating<TData = unknown, TVars = unknown, TError = Error>(
+  filters?: MaybeRefOrGetter<MutationInfoFilters<TData, TVars, TError>>,
+  queryClient?: QueryClient
+): Readonly<Ref<number>> {
+  const mutations = useMutationState(
+    () => ({ filters: { ...toValue(filters), status: 'mutating' as const } }),
+    queryClient
+  )
+
+  return computed(() => mutations.value.length)
+}
@@ -0,0 +1,100 @@
+import { MaybeRefOrGetter, Ref, shallowRef, toValue, watch } from 'vue'
+
+import { InfiniteData, InfiniteQuery, Query, QueryClient } from '../vanilla'
+import {
+  ObservableQueriesOptions,
+  createObservableQueries,
+} from '../vanilla/observableQueries'
+import { ObservableQueryOptions } from '../vanilla/observableQuery'
+import { useQueryClient } from './QueryClientPlugin'
+import {
+  UseInfiniteQueryResult,
+  UseQueryOptions,
+  UseQueryResult,
+} from './useQuery'
+import { onDispose } from './utils'
+
+type GetResult<T> = T extends {
+  query: InfiniteQuery<any, any, infer TError>
+  select: (data: any) => infer TData
+}
+  ? UseInfiniteQueryResult<TData, TError>
+  : T extends {
+      query: InfiniteQuery<
+        infer TFetcherData,
+        any,
+        infer TError,
+        infer TPageParam
+      >
+    }
+  ? UseInfiniteQueryResult<InfiniteData<TFetcherData, TPageParam>, TError>
+  : T extends {
+      query: Query<any, any, infer TError>
+      select: (data: any) => infer TData
+    }
+  ? UseQueryResult<TData, TError>
+  : T extends {
+      query: Query<infer TFetcherData, any, infer TError>
+    }
+  ? UseQueryResult<TFetcherData, TError>
+  : UseQueryResult
+
+export type QueriesResults<T extends readonly any[]> = {
+  -readonly [K in keyof T]: GetResult<T[K]>
+}
+
+export interface UseQueriesOptions<
+  T extends readonly any[],
+  TCombinedResult = QueriesResults<T>
+> {
+  queries: MaybeRefOrGetter<readonly [...T]>
+  combine?: (result: QueriesResults<T>) => TCombinedResult
+}
+
+/**
+ * Watches a list of queries, the list may be a ref or a getter
+ * to add or remove queries reactively.
+ * @returns a ref holding the latest results, or their combination
+ */
+export function useQueries<
+  T extends ReadonlyArray<UseQueryOptions<any, any, any, any>>,
+  TCombinedResult = QueriesResults<T>
+>(
+  { queries, combine }: UseQueriesOptions<T, TCombinedResult>,
+  queryClient?: QueryClient
+): Readonly<Ref<TCombinedResult>> {
+  const client = useQueryClient(queryClient)
+  const options = { combine } as ObservableQueriesOptions<TCombinedResult>
+
+  const getDefaultedQueries = () =>
+    toValue(queries).map(opts =>
+      client.defaultQueryOptions(opts as ObservableQueryOptions)
+    )
+
+  const obsQueries = createObservableQueries<TCombinedResult>(
+    client,
+    getDefaultedQueries(),
+    options
+  )
+  const result = shallowRef(obsQueries.getCurrentResult())
+
+  const unsubscribe = obsQueries.subscribe(() => {
+    result.value = obsQueries.getCurrentResult()
+  })
+
+  const stopWatch = watch(
+    getDefaultedQueries,
+    defaultedQueries => {
+      obsQueries.setQueries(defaultedQueries, options)
+      result.value = obsQueries.getCurrentResult()
+    },
+    { deep: true }
+  )
+
+  onDispose(() => {
+    stopWatch()
+    unsubscribe()
+  })
+
+  return result
+}
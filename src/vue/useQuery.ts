@@ -0,0 +1,122 @@
+import { MaybeRefOrGetter, Ref, shallowRef, toValue, watch } from 'vue'
+
+import { InfiniteData, InfiniteQuery, Query, QueryClient } from '../vanilla'
+import { ObservableInfiniteQueryResult } from '../vanilla/observableInfiniteQuery'
+import {
+  ObservableQueryOptions,
+  ObservableQueryResult,
+} from '../vanilla/observableQuery'
+import { GetVariablesOption } from '../vanilla/typeUtils'
+import { useQueryClient } from './QueryClientPlugin'
+import { onDispose } from './utils'
+
+export type UseBaseQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TQueryData = TFetcherData,
+  TData = TQueryData
+> = Omit<
+  ObservableQueryOptions<TFetcherData, TVars, TError, TQueryData, TData>,
+  'suspense' | 'throwOnError' | '_optimisticResults'
+> &
+  GetVariablesOption<TVars>
+
+export type UseQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = TFetcherData
+> = UseBaseQueryOptions<TFetcherData, TVars, TError, TFetcherData, TData> & {
+  query: Query<TFetcherData, TVars, TError>
+}
+
+export type UseQueryResult<
+  TData = unknown,
+  TError = unknown
+> = ObservableQueryResult<TData, TError>
+
+export type UseInfiniteQueryOptions<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
+> = UseBaseQueryOptions<
+  TFetcherData,
+  TVars,
+  TError,
+  InfiniteData<TFetcherData, TPageParam>,
+  TData
+> & {
+  query: InfiniteQuery<TFetcherData, TVars, TError, TPageParam>
+}
+
+export type UseInfiniteQueryResult<
+  TData = unknown,
+  TError = unknown
+> = ObservableInfiniteQueryResult<TData, TError>
+
+/**
+ * Watches a query, the options may be a ref or a getter
+ * to follow reactive variables.
+ * @returns a ref holding the latest result
+ */
+export function useQuery<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = InfiniteData<TFetcherData>,
+  TPageParam = unknown
+>(
+  options: MaybeRefOrGetter<
+    UseInfiniteQueryOptions<TFetcherData, TVars, TError, TData, TPageParam>
+  >,
+  queryClient?: QueryClient
+): Readonly<Ref<UseInfiniteQueryResult<TData, TError>>>
+export function useQuery<
+  TFetcherData = unknown,
+  TVars = unknown,
+  TError = Error,
+  TData = TFetcherData
+>(
+  options: MaybeRefOrGetter<
+    UseQueryOptions<TFetcherData, TVars, TError, TData>
+  >,
+  queryClient?: QueryClient
+): Readonly<Ref<UseQueryResult<TData, TError>>>
+export function useQuery(
+  options: MaybeRefOrGetter<UseBaseQueryOptions<any, any, any, any, any>>,
+  queryClient?: QueryClient
+): Readonly<Ref<any>> {
+  const client = useQueryClient(queryClient)
+  const obsQuery = client.watchQuery(
+    client.defaultQueryOptions(toValue(options) as ObservableQueryOptions)
+  )
+  const result = shallowRef(obsQuery.getCurrentResult())
+
+  const unsubscribe = obsQuery.subscribe(nextResult => {
+    result.value = nextResult
+  })
+
+  // Update result to make sure we did not miss any query updates
+  // between creating the observer and subscribing to it.
+  obsQuery.updateResult()
+
+  const stopWatch = watch(
+    () => toValue(options),
+    nextOptions => {
+      obsQuery.setOptions(
+        client.defaultQueryOptions(nextOptions as ObservableQueryOptions)
+      )
+    },
+    { deep: true }
+  )
+
+  onDispose(() => {
+    stopWatch()
+    unsubscribe()
+  })
+
+  return result
+}
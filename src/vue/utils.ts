@@ -0,0 +1,8 @@
+import { getCurrentScope, onScopeDispose } from 'vue'
+
+// Composables may be called outside of a component, e.g. in a store
+export const onDispose = (fn: () => void): void => {
+  if (getCurrentScope()) {
+    onScopeDispose(fn)
+  }
+}
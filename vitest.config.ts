@@ -1,6 +1,8 @@
 import { defineConfig } from 'vitest/config'
 
 export default defineConfig({
+  // Resolves solid-js to its browser build, its server build is not reactive
+  resolve: { conditions: ['browser'] },
   test: {
     name: 'quaere',
     dir: 'src',
@@ -8,5 +10,6 @@ export default defineConfig({
     environment: 'jsdom',
     globals: true,
     coverage: { provider: 'istanbul' },
+    server: { deps: { inline: [/solid-js/] } },
   },
 })